@@ -1,50 +1,127 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import LegacyTree from './components/LegacyTree.tsx';
 import EditModal from './components/EditModal.tsx';
 import { Header, NavigationInstructions } from './components/Layout.tsx';
+import Toolbar from './components/Toolbar.tsx';
+import ImportReport, { ImportReportItem } from './components/ImportReport.tsx';
+import ImportModeDialog, { ImportMode } from './components/ImportModeDialog.tsx';
+import ViewSwitcher from './components/ViewSwitcher.tsx';
+import PartnershipModal from './components/PartnershipModal.tsx';
+import RelationshipPanel from './components/RelationshipPanel.tsx';
+import ValidationPanel from './components/ValidationPanel.tsx';
+import ExportChartDialog from './components/ExportChartDialog.tsx';
+import PedigreeChart from './components/PedigreeChart.tsx';
+import FanChart from './components/FanChart.tsx';
+import TreeSwitcher from './components/TreeSwitcher.tsx';
+import CollaborationPanel from './components/CollaborationPanel.tsx';
+import MergeReviewDialog from './components/MergeReviewDialog.tsx';
 import { INITIAL_DATA } from './constants.ts';
-import { FamilyMember, D3Member } from './types.ts';
-
-// Helper to calculate total connections (Degree) for a node
-const calculateDegree = (root: FamilyMember, targetId: string): number => {
-  let degree = 0;
-  
-  const traverse = (node: FamilyMember) => {
-    // 1. If this node IS the target, count its outgoing references (Parents + Spouse)
-    if (node.id === targetId) {
-      if (node.parents) degree += node.parents.length;
-      if (node.spouse) degree += 1;
-    }
-
-    // 2. If this node REFERENCES the target
-    // Check parents array (Child -> Parent connection)
-    if (node.parents) {
-      if (node.parents.some(p => p.id === targetId)) {
-        degree += 1;
-      }
-      node.parents.forEach(traverse);
-    }
-    
-    // Check spouse property (Spouse -> Spouse connection)
-    if (node.spouse) {
-      if (node.spouse.id === targetId) {
-        degree += 1;
-      }
-      traverse(node.spouse);
-    }
-  };
-
-  traverse(root);
-  return degree;
-};
+import { ChartLayout, ChartViewState, FamilyGraph, D3Member, Partnership, Person, PresenceMarker, TreeViewMode } from './types.ts';
+import { TreeView, Workspace, deleteTree, describeTree, loadTree, loadWorkspace, saveTree, saveWorkspace } from './services/storage.ts';
+import { parseGedcom, serializeGedcom } from './services/gedcom.ts';
+import { combineGraphs, createBundle, readBundle, mergeGraphs } from './services/bundle.ts';
+import { downloadFile, readFileAsText, slugify } from './services/files.ts';
+import { ChartExportFormat, ChartSize, PosterOptions, exportChartPdf, exportChartPng, exportChartSvg, measureChart } from './services/chartExport.ts';
+import { useHistory } from './hooks/useHistory.ts';
+import { useCollaboration } from './hooks/useCollaboration.ts';
+import { estimateEvent, getBirthYear } from './utils/dates.ts';
+import { findRelationship, relationshipLabels } from './utils/kinship.ts';
+import { groupIssuesByPerson, validateGraph, validatePerson } from './utils/validation.ts';
+import { DuplicateCandidate, MergeChoice, MergeField, combinePersons, findDuplicates } from './utils/duplicates.ts';
+import { createSyntheticGraph, logChartTimings } from './utils/benchmark.ts';
+import {
+  addChild,
+  addParent,
+  addPartner,
+  addSibling,
+  buildGraph,
+  createId,
+  getDegree,
+  getParentIds,
+  getPartnerIds,
+  getPartnershipChildIds,
+  graphFromTree,
+  isAncestorOf,
+  mergePersons,
+  removePerson,
+  selectDescendantTree,
+  selectHourglassTree,
+  setRoot,
+  updatePartnership,
+  updatePerson
+} from './utils/graph.ts';
+
+const AUTOSAVE_DELAY_MS = 500;
+
+// `?benchmark=5000` opens a synthetic tree of that many people instead of the saved one, and logs
+// the chart's timings. Nothing is saved in this mode.
+const BENCHMARK_SIZE = Number(new URLSearchParams(window.location.search).get('benchmark')) || 0;
+
+const INITIAL_GRAPH = BENCHMARK_SIZE ? createSyntheticGraph(BENCHMARK_SIZE) : graphFromTree(INITIAL_DATA);
 
 function App() {
   const [dimensions, setDimensions] = useState({ 
     width: window.innerWidth, 
     height: window.innerHeight 
   });
-  const [data, setData] = useState<FamilyMember>(INITIAL_DATA);
-  const [editingMember, setEditingMember] = useState<D3Member | FamilyMember | null>(null);
+  const { state: data, set: setData, reset: resetData, rebase: rebaseData, undo, redo, canUndo, canRedo } = useHistory<FamilyGraph>(INITIAL_GRAPH);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const editingMember = editingId ? data.persons[editingId] ?? null : null;
+  const [editingUnionId, setEditingUnionId] = useState<string | null>(null);
+  const editingUnion = editingUnionId ? data.partnerships[editingUnionId] ?? null : null;
+  // The chart being shown and the person it starts from; falls back to the root if that person is gone.
+  // The pedigree and fan layouts always show ancestors, whatever the tree's mode.
+  const [view, setView] = useState<{ layout: ChartLayout; mode: TreeViewMode; focusId: string | null }>({ layout: 'tree', mode: 'ancestors', focusId: null });
+  const [generations, setGenerations] = useState(5);
+  const focusId = view.focusId && data.persons[view.focusId] ? view.focusId : data.rootId;
+  const showsDescendants = view.layout === 'tree' && view.mode === 'descendants';
+  const tree = useMemo(
+    () => showsDescendants ? selectDescendantTree(data, focusId) : selectHourglassTree(data, focusId),
+    [data, showsDescendants, focusId]
+  );
+  // Relationship calculator: "how is `toId` related to `fromId`?", plus optional generated link labels
+  const [kinshipQuery, setKinshipQuery] = useState<{ fromId: string | null; toId: string | null }>({ fromId: null, toId: null });
+  const kinshipFromId = kinshipQuery.fromId && data.persons[kinshipQuery.fromId] ? kinshipQuery.fromId : focusId;
+  const kinshipToId = kinshipQuery.toId && data.persons[kinshipQuery.toId] ? kinshipQuery.toId : null;
+  const kinship = useMemo(
+    () => kinshipToId ? findRelationship(data, kinshipFromId, kinshipToId) : null,
+    [data, kinshipFromId, kinshipToId]
+  );
+  const [autoLabels, setAutoLabels] = useState(false);
+  const labels = useMemo(
+    () => autoLabels ? relationshipLabels(data, focusId) : undefined,
+    [data, focusId, autoLabels]
+  );
+  const issues = useMemo(() => validateGraph(data), [data]);
+  const issuesByPerson = useMemo(() => groupIssuesByPerson(issues), [issues]);
+  // Autosave stays off until the saved tree has been restored, so the demo data never overwrites it
+  const [isRestored, setIsRestored] = useState(false);
+  const canPersist = useRef(true);
+  const [importReport, setImportReport] = useState<{ title: string; summary: string; items: ImportReportItem[] } | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; graph: FamilyGraph } | null>(null);
+  // Likely duplicate people waiting to be merged or dismissed, while the review dialog is open
+  const [duplicates, setDuplicates] = useState<DuplicateCandidate[] | null>(null);
+  // Set after adding an imported tree alongside this one, until one of its people is merged in
+  const [unlinkedImport, setUnlinkedImport] = useState<{ fileName: string; count: number } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const chartRef = useRef<SVGSVGElement>(null);
+  // Set while exporting the chart: the tree then draws every node, off screen too, and is measured
+  // once it has; the export dialog is open while the size is set
+  const [isChartExportOpen, setIsChartExportOpen] = useState(false);
+  const [chartExportSize, setChartExportSize] = useState<ChartSize | null>(null);
+  const [isExportingChart, setIsExportingChart] = useState(false);
+  // The trees kept in this browser. Stays null in benchmark mode and when storage cannot be read.
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const workspaceRef = useRef(workspace);
+  workspaceRef.current = workspace;
+  // The tree chart's zoom and open branches change on every pan, so they are kept out of state and
+  // only written with the tree list; `initialChartView` is where the chart starts after a switch of
+  // tree or of layout
+  const chartView = useRef<ChartViewState | undefined>(undefined);
+  const [initialChartView, setInitialChartView] = useState<ChartViewState | undefined>(undefined);
+  // The graph last written to storage, so opening a tree does not save it straight back
+  const lastSaved = useRef<FamilyGraph | null>(null);
+  const workspaceSaveTimer = useRef<number | null>(null);
 
   useEffect(() => {
     const handleResize = () => {
@@ -58,243 +135,688 @@ function App() {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // --- Logic to Modify Tree ---
+  // --- Persistence ---
 
-  const updateNode = (tree: FamilyMember, targetId: string, updates: Partial<FamilyMember>): FamilyMember => {
-    if (tree.id === targetId) {
-      return { ...tree, ...updates };
-    }
-    
-    let updatedSpouse = tree.spouse;
-    if (tree.spouse) {
-      if (tree.spouse.id === targetId) {
-        updatedSpouse = { ...tree.spouse, ...updates };
-      } else {
-        updatedSpouse = updateNode(tree.spouse, targetId, updates);
-      }
+  // How the open tree is shown, as stored in the tree list
+  const currentTreeView = (): TreeView => ({ ...view, generations, chart: chartView.current });
+
+  // Records the open tree's view and size in the tree list
+  const withOpenTree = (current: Workspace, graph: FamilyGraph = data): Workspace => ({
+    ...current,
+    trees: current.trees.map(tree => tree.id !== current.activeTreeId ? tree : {
+      ...tree,
+      view: currentTreeView(),
+      personCount: Object.keys(graph.persons).length,
+      updatedAt: graph === lastSaved.current ? tree.updatedAt : new Date().toISOString()
+    })
+  });
+
+  // Shows another tree where it was left. `next` already lists it and has the tree being left recorded.
+  const openTree = (next: Workspace, id: string, graph: FamilyGraph, treeView?: TreeView) => {
+    lastSaved.current = graph;
+    resetData(graph);
+    setView({ layout: treeView?.layout ?? 'tree', mode: treeView?.mode ?? 'ancestors', focusId: treeView?.focusId ?? null });
+    setGenerations(treeView?.generations ?? 5);
+    chartView.current = treeView?.chart;
+    setInitialChartView(treeView?.chart);
+    setEditingId(null);
+    setEditingUnionId(null);
+    setKinshipQuery({ fromId: null, toId: null });
+    setWorkspace({ ...next, activeTreeId: id });
+  };
+
+  useEffect(() => {
+    // The benchmark tree is never restored over or saved
+    if (BENCHMARK_SIZE) return logChartTimings();
+    let cancelled = false;
+    loadWorkspace()
+      .then(async saved => {
+        if (cancelled) return;
+        if (!saved) {
+          // First visit: the demo tree becomes the first tree of the workspace
+          const id = createId('tree');
+          setWorkspace({ activeTreeId: id, trees: [describeTree(id, INITIAL_GRAPH)] });
+          return;
+        }
+        const graph = await loadTree(saved.activeTreeId);
+        if (cancelled) return;
+        const info = saved.trees.find(tree => tree.id === saved.activeTreeId);
+        if (graph) openTree(saved, saved.activeTreeId, graph, info?.view);
+        else setWorkspace(saved);
+      })
+      .catch(err => {
+        // Never autosave over a tree we could not read (e.g. saved by a newer version)
+        console.error("Failed to restore saved tree. Autosave is disabled for this session.", err);
+        canPersist.current = false;
+      })
+      .finally(() => {
+        if (!cancelled) setIsRestored(true);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const activeTreeId = workspace?.activeTreeId;
+
+  // Editing together: others see which person this window is centered on and which one is being edited
+  const collaboration = useCollaboration({
+    treeId: activeTreeId,
+    data,
+    presence: { viewingId: focusId, editingId: editingId ?? undefined },
+    reset: resetData,
+    rebase: rebaseData
+  });
+  const presenceByPerson = useMemo(() => {
+    const markers: Record<string, PresenceMarker[]> = {};
+    collaboration.peers.forEach(({ collaborator, presence }) => {
+      const { name, color } = collaborator;
+      if (presence.editingId) (markers[presence.editingId] ||= []).push({ name, color, editing: true });
+      if (presence.viewingId && presence.viewingId !== presence.editingId) (markers[presence.viewingId] ||= []).push({ name, color, editing: false });
+    });
+    return markers;
+  }, [collaboration.peers]);
+  useEffect(() => {
+    if (!isRestored || !canPersist.current || !activeTreeId || data === lastSaved.current) return;
+    const timer = setTimeout(() => {
+      saveTree(activeTreeId, data)
+        .then(() => {
+          setWorkspace(prev => prev && withOpenTree(prev, data));
+          lastSaved.current = data;
+        })
+        .catch(err => console.error("Failed to save tree.", err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [data, isRestored, activeTreeId]);
+
+  // Saves the tree list, with where the open tree's chart was left, shortly after the last change
+  const scheduleWorkspaceSave = () => {
+    if (workspaceSaveTimer.current !== null) clearTimeout(workspaceSaveTimer.current);
+    workspaceSaveTimer.current = window.setTimeout(() => {
+      workspaceSaveTimer.current = null;
+      const current = workspaceRef.current;
+      if (!current || !canPersist.current) return;
+      saveWorkspace(withOpenTree(current)).catch(err => console.error("Failed to save the tree list.", err));
+    }, AUTOSAVE_DELAY_MS);
+  };
+
+  useEffect(() => {
+    if (isRestored && workspace) scheduleWorkspaceSave();
+  }, [workspace, view, generations, isRestored]);
+
+  // The pedigree and fan layouts replace the tree chart, which picks up where it was left on the way back
+  useEffect(() => {
+    if (view.layout !== 'tree') setInitialChartView(chartView.current);
+  }, [view.layout]);
+
+  const handleChartViewChange = (next: ChartViewState) => {
+    chartView.current = next;
+    if (isRestored && workspaceRef.current) scheduleWorkspaceSave();
+  };
+
+  // --- Workspace: several trees ---
+
+  // The open tree is saved first, so nothing typed in the last moment is lost
+  const handleSwitchTree = async (id: string) => {
+    const current = workspaceRef.current;
+    const info = current?.trees.find(tree => tree.id === id);
+    if (!current || !info) return;
+    try {
+      if (canPersist.current) await saveTree(current.activeTreeId, data);
+      const graph = await loadTree(id);
+      if (!graph) throw new Error("It is missing from this browser's storage.");
+      openTree(withOpenTree(current), id, graph, info.view);
+    } catch (err) {
+      console.error("Failed to open tree.", err);
+      alert(`Could not open ${info.name}: ${err instanceof Error ? err.message : err}`);
     }
+  };
 
-    let updatedParents = tree.parents;
-    if (tree.parents && tree.parents.length > 0) {
-      updatedParents = tree.parents.map(p => updateNode(p, targetId, updates));
+  const handleCreateTree = async (treeName: string, personName: string) => {
+    const current = workspaceRef.current;
+    if (!current) return;
+    const person: Person = { id: createId('person'), name: personName, imageUrl: "https://picsum.photos/200" };
+    const graph = buildGraph({ rootId: person.id, persons: [person], parentIds: {}, partnerships: [] });
+    const id = createId('tree');
+    try {
+      if (canPersist.current) {
+        await saveTree(current.activeTreeId, data);
+        await saveTree(id, graph);
+      }
+      const next = withOpenTree(current);
+      openTree({ ...next, trees: [...next.trees, describeTree(id, graph, treeName)] }, id, graph);
+    } catch (err) {
+      console.error("Failed to create tree.", err);
+      alert("Could not create the tree.");
     }
+  };
 
-    return {
-      ...tree,
-      spouse: updatedSpouse,
-      parents: updatedParents
-    };
+  const handleRenameTree = (id: string, name: string) => {
+    setWorkspace(prev => prev && { ...prev, trees: prev.trees.map(tree => (tree.id === id ? { ...tree, name } : tree)) });
   };
 
-  // Strict Pruning: Delete the node and its entire subtree
-  const deleteNode = (tree: FamilyMember, targetId: string): FamilyMember | null => {
-    // 1. If this node is the target, return null to remove it from parent/spouse
-    if (tree.id === targetId) {
-      return null;
+  const handleDuplicateTree = async (id: string) => {
+    const current = workspaceRef.current;
+    const source = current?.trees.find(tree => tree.id === id);
+    if (!current || !source) return;
+    try {
+      const isOpen = id === current.activeTreeId;
+      const graph = isOpen ? data : await loadTree(id);
+      if (!graph) throw new Error("It is missing from this browser's storage.");
+      const copyId = createId('tree');
+      if (canPersist.current) await saveTree(copyId, graph);
+      const copy = { ...describeTree(copyId, graph, `${source.name} (Copy)`), view: isOpen ? currentTreeView() : source.view };
+      setWorkspace(prev => prev && { ...prev, trees: [...prev.trees, copy] });
+    } catch (err) {
+      console.error("Failed to duplicate tree.", err);
+      alert(`Could not duplicate ${source.name}: ${err instanceof Error ? err.message : err}`);
     }
+  };
 
-    // 2. Recursively check spouse
-    // We must create a new reference if spouse changes
-    let updatedSpouse = tree.spouse;
-    if (tree.spouse) {
-      const res = deleteNode(tree.spouse, targetId);
-      if (res === null) {
-        updatedSpouse = undefined; // Spouse removed
-      } else if (res !== tree.spouse) {
-        updatedSpouse = res; // Spouse updated (deeply)
+  // Deleting the open tree opens the first of the others
+  const handleDeleteTree = async (id: string) => {
+    const current = workspaceRef.current;
+    const tree = current?.trees.find(t => t.id === id);
+    if (!current || !tree || current.trees.length === 1) return;
+    if (!confirm(`Delete "${tree.name}" and everyone in it? This cannot be undone.`)) return;
+    const remaining = current.trees.filter(t => t.id !== id);
+    try {
+      if (id === current.activeTreeId) {
+        const next = remaining[0];
+        const graph = await loadTree(next.id);
+        if (!graph) throw new Error(`${next.name} is missing from this browser's storage.`);
+        openTree({ ...current, trees: remaining }, next.id, graph, next.view);
+      } else {
+        setWorkspace({ ...current, trees: remaining });
       }
+      if (canPersist.current) await deleteTree(id);
+    } catch (err) {
+      console.error("Failed to delete tree.", err);
+      alert(`Could not delete ${tree.name}: ${err instanceof Error ? err.message : err}`);
     }
-    
-    // 3. Recursively check parents
-    let updatedParents = tree.parents;
-    if (tree.parents && tree.parents.length > 0) {
-      const newParents: FamilyMember[] = [];
-      let changed = false;
-      
-      for (const p of tree.parents) {
-        const res = deleteNode(p, targetId);
-        if (res === null) {
-          changed = true; // Parent removed
-        } else {
-          newParents.push(res);
-          if (res !== p) changed = true; // Parent updated (deeply)
-        }
-      }
-      
-      if (changed) {
-        updatedParents = newParents;
+  };
+
+  // --- Undo / Redo ---
+
+  const handleUndo = () => {
+    setEditingId(null);
+    setEditingUnionId(null);
+    undo();
+  };
+
+  const handleRedo = () => {
+    setEditingId(null);
+    setEditingUnionId(null);
+    redo();
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Leave text fields to their own native undo
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
       }
-    }
+    };
 
-    // Return new object only if something changed
-    if (updatedSpouse !== tree.spouse || updatedParents !== tree.parents) {
-      return {
-        ...tree,
-        spouse: updatedSpouse,
-        parents: updatedParents
-      };
-    }
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // --- Logic to Modify Tree ---
 
-    return tree;
+  const handleUpdateMember = (id: string, updates: Partial<Person>) => {
+    setData(prev => updatePerson(prev, id, updates));
   };
 
-  const handleUpdateMember = (id: string, updates: Partial<FamilyMember>) => {
-    setData(prev => updateNode(prev, id, updates));
+  const handleUpdateUnion = (id: string, updates: Pick<Partnership, 'marriage' | 'divorce'>) => {
+    setData(prev => updatePartnership(prev, id, updates));
   };
 
   const handleDeleteMember = (id: string) => {
-    if (id === data.id) {
+    if (id === data.rootId) {
       alert("Cannot delete the root person of the tree.");
       return;
     }
     
     // Calculate degree again to be safe
-    const degree = calculateDegree(data, id);
+    const degree = getDegree(data, id);
     if (degree > 1) {
       console.warn(`Attempted to delete member ${id} with degree ${degree}. Action blocked.`);
       return;
     }
 
     console.log(`Deleting member: ${id}`);
-    const newData = deleteNode(data, id);
-    
-    if (newData) {
-      setData(newData);
-      setEditingMember(null); 
-    } else {
-        console.error("Failed to generate new tree data after deletion.");
-    }
+    setData(prev => removePerson(prev, id));
+    setEditingId(null);
   };
 
-  const addParentToNode = (current: FamilyMember, targetId: string): FamilyMember => {
-    if (current.id === targetId) {
-      const newParent: FamilyMember = {
-        id: `new-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  const handleAddParent = (id: string) => {
+    const child = data.persons[id];
+    if (!child) return;
+    setData(prev => addParent(prev, id, {
+      id: createId('new'),
+      name: "New Ancestor",
+      birth: estimateEvent(getBirthYear(child), -25),
+      imageUrl: "https://picsum.photos/200",
+      relationship: "Parent"
+    }));
+  };
+
+  const handleAddSpouse = (id: string) => {
+    const person = data.persons[id];
+    if (!person) return;
+    setData(prev => addPartner(prev, id, {
+      id: createId('spouse'),
+      name: "New Spouse",
+      birth: estimateEvent(getBirthYear(person), 0),
+      imageUrl: "https://picsum.photos/200",
+      relationship: "Spouse"
+    }));
+  };
+
+  // Siblings are derived from shared parents, so someone without parents first gets a placeholder one
+  const handleAddSibling = (id: string) => {
+    const person = data.persons[id];
+    if (!person) return;
+    const sibling: Person = {
+      id: createId('sibling'),
+      name: "New Sibling",
+      birth: estimateEvent(getBirthYear(person), 0),
+      imageUrl: "https://picsum.photos/200",
+      relationship: "Sibling"
+    };
+    setData(prev => {
+      const withParent = getParentIds(prev, id).length > 0 ? prev : addParent(prev, id, {
+        id: createId('new'),
         name: "New Ancestor",
-        year: `${parseInt(current.year) - 25}`, 
+        birth: estimateEvent(getBirthYear(person), -25),
         imageUrl: "https://picsum.photos/200",
-        relationship: "Parent",
-        parents: []
-      };
-      
-      return {
-        ...current,
-        parents: [...(current.parents || []), newParent]
-      };
-    }
+        relationship: "Parent"
+      });
+      return addSibling(withParent, id, sibling);
+    });
+  };
 
-    let updatedSpouse = current.spouse;
-    if (current.spouse) {
-       updatedSpouse = addParentToNode(current.spouse, targetId);
+  // `partnerId` picks the partnership the child belongs to; without it a single partner is assumed
+  // to be the other parent, and someone with several partners gets a child with one known parent
+  const handleAddChild = (id: string, partnerId?: string) => {
+    const parent = data.persons[id];
+    if (!parent) return;
+    const child: Person = {
+      id: createId('child'),
+      name: "New Descendant",
+      birth: estimateEvent(getBirthYear(parent), 25),
+      imageUrl: "https://picsum.photos/200",
+      relationship: "Child"
+    };
+    const partnerIds = getPartnerIds(data, id);
+    const otherParentId = partnerId ?? (partnerIds.length === 1 ? partnerIds[0] : undefined);
+    setData(prev => addChild(prev, otherParentId ? [id, otherParentId] : [id], child));
+
+    // Make sure the new child is on screen: the ancestor chart only shows descendants of its focus person
+    if (view.mode === 'ancestors' && id !== focusId && !isAncestorOf(data, focusId, id)) {
+      setView({ layout: 'tree', mode: 'descendants', focusId: id });
     }
+  };
+
+  const handleChangeView = (id: string, mode: TreeViewMode) => {
+    setView({ layout: 'tree', mode, focusId: id });
+  };
+
+  // Re-centers the current chart on someone; only the view changes, never the stored tree
+  const handleFocus = (id: string) => {
+    setView(prev => ({ ...prev, focusId: id }));
+  };
+
+  const handleMakeRoot = () => {
+    setData(prev => setRoot(prev, focusId));
+    setView(prev => ({ ...prev, focusId: null }));
+  };
 
-    let updatedParents = current.parents;
-    if (current.parents && current.parents.length > 0) {
-      updatedParents = current.parents.map(p => addParentToNode(p, targetId));
+  // --- Import / Export ---
+
+  const handleImportGedcom = async (file: File) => {
+    try {
+      const { graph, issues } = parseGedcom(await readFileAsText(file));
+      const root = graph.persons[graph.rootId];
+      if (!confirm(`Replace the current tree with "${root.name}" from ${file.name}?`)) return;
+      setData(graph);
+      setEditingId(null);
+      setImportReport({
+        title: "GEDCOM Imported",
+        summary: `${root.name}'s tree was imported from ${file.name}.`,
+        items: issues
+      });
+    } catch (err) {
+      console.error("GEDCOM import failed.", err);
+      alert(`Could not import ${file.name}: ${err instanceof Error ? err.message : err}`);
     }
+  };
 
-    return {
-      ...current,
-      spouse: updatedSpouse,
-      parents: updatedParents
-    };
+  const handleExportGedcom = () => {
+    downloadFile(`${slugify(data.persons[data.rootId].name)}.ged`, serializeGedcom(data), 'text/vnd.familysearch.gedcom');
   };
 
-  const addSpouseToNode = (current: FamilyMember, targetId: string): FamilyMember => {
-    if (current.id === targetId) {
-      if (current.spouse) {
-        alert("This member already has a spouse.");
-        return current;
-      }
-      return {
-        ...current,
-        spouse: {
-          id: `spouse-${Date.now()}`,
-          name: "New Spouse",
-          year: current.year,
-          imageUrl: "https://picsum.photos/200",
-          relationship: "Spouse",
-          parents: []
-        }
-      };
+  const handleImportJson = async (file: File) => {
+    try {
+      const graph = readBundle(await readFileAsText(file));
+      setPendingImport({ fileName: file.name, graph });
+    } catch (err) {
+      console.error("Tree import failed.", err);
+      alert(`Could not import ${file.name}: ${err instanceof Error ? err.message : err}`);
     }
+  };
 
-    let updatedSpouse = current.spouse;
-    if (current.spouse) {
-       updatedSpouse = addSpouseToNode(current.spouse, targetId);
+  const handleConfirmImport = (mode: ImportMode) => {
+    if (!pendingImport) return;
+    const { fileName, graph } = pendingImport;
+    setPendingImport(null);
+    setEditingId(null);
+
+    if (mode === 'replace') {
+      setData(graph);
+      return;
     }
 
-    let updatedParents = current.parents;
-    if (current.parents && current.parents.length > 0) {
-      updatedParents = current.parents.map(p => addSpouseToNode(p, targetId));
+    // The imported people join the tree once they are merged with someone already in it
+    if (mode === 'combine') {
+      const { graph: combined, incomingIds } = combineGraphs(data, graph);
+      setData(combined);
+      setUnlinkedImport({ fileName, count: incomingIds.length });
+      setDuplicates(findDuplicates(combined, Object.keys(data.persons), incomingIds));
+      return;
     }
 
-    return {
-      ...current,
-      spouse: updatedSpouse,
-      parents: updatedParents
-    };
+    try {
+      const { graph: merged, skipped } = mergeGraphs(data, graph);
+      setData(merged);
+      setImportReport({
+        title: "Trees Merged",
+        summary: `${fileName} was merged into ${data.persons[data.rootId].name}'s tree.`,
+        items: skipped.map(message => ({ message }))
+      });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    }
   };
 
-  const handleAddParent = (id: string) => {
-    const newData = addParentToNode(data, id);
-    setData(newData);
+  const handleFindDuplicates = () => {
+    setDuplicates(findDuplicates(data));
   };
 
-  const handleAddSpouse = (id: string) => {
-    const newData = addSpouseToNode(data, id);
-    setData(newData);
+  const handleMergeDuplicate = ({ keepId, mergeId }: DuplicateCandidate, choices: Partial<Record<MergeField, MergeChoice>>) => {
+    try {
+      setData(mergePersons(data, keepId, mergeId, combinePersons(data.persons[keepId], data.persons[mergeId], choices)));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    setView(prev => (prev.focusId === mergeId ? { ...prev, focusId: keepId } : prev));
+    setUnlinkedImport(null);
+    handleDismissDuplicate({ keepId, mergeId });
   };
 
-  const handleAddChild = (id: string) => {
-    if (id === data.id) {
-      const newRoot: FamilyMember = {
-        id: `child-${Date.now()}`,
-        name: "New Descendant",
-        year: `${parseInt(data.year) + 25}`,
-        imageUrl: "https://picsum.photos/200",
-        parents: [{ ...data, relationship: "Parent" }] 
-      };
-      setData(newRoot);
-    } else {
-      alert("In this view, you can only extend descendants from the root of the tree.");
+  // Imported people that were never merged in are linked to no one in this tree and show on no chart
+  const handleCloseDuplicates = () => {
+    setDuplicates(null);
+    if (!unlinkedImport) return;
+    setUnlinkedImport(null);
+    const { fileName, count } = unlinkedImport;
+    if (confirm(`None of the ${count} people added from ${fileName} were merged into this tree, so they are not linked to anyone in it and will not show on the chart. Undo the import?`)) {
+      undo();
     }
   };
 
-  // Determine eligibility
+  const handleDismissDuplicate = ({ keepId, mergeId }: Pick<DuplicateCandidate, 'keepId' | 'mergeId'>) => {
+    setDuplicates(prev => prev && prev.filter(c => c.keepId !== keepId || c.mergeId !== mergeId));
+  };
+
+  const handleExportJson = async () => {
+    setIsExporting(true);
+    try {
+      const bundle = await createBundle(data);
+      downloadFile(`${slugify(data.persons[data.rootId].name)}.json`, JSON.stringify(bundle, null, 2), 'application/json');
+    } catch (err) {
+      console.error("Tree export failed.", err);
+      alert("Could not export the tree.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleOpenChartExport = () => {
+    setIsChartExportOpen(true);
+  };
+
+  useEffect(() => {
+    if (isChartExportOpen && chartRef.current) setChartExportSize(measureChart(chartRef.current));
+  }, [isChartExportOpen]);
+
+  const handleCloseChartExport = () => {
+    setIsChartExportOpen(false);
+    setChartExportSize(null);
+  };
+
+  const handleExportChart = async (format: ChartExportFormat, options: PosterOptions) => {
+    if (!chartRef.current) return;
+    const fileName = `${slugify(data.persons[focusId].name)}-${view.layout === 'tree' ? view.mode : view.layout}`;
+    setIsExportingChart(true);
+    try {
+      if (format === 'svg') await exportChartSvg(chartRef.current, fileName);
+      else if (format === 'png') await exportChartPng(chartRef.current, fileName, options.dpi);
+      else await exportChartPdf(chartRef.current, fileName, options);
+      handleCloseChartExport();
+    } catch (err) {
+      console.error("Chart export failed.", err);
+      alert(`Could not export the chart: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setIsExportingChart(false);
+    }
+  };
+
+  // Determine eligibility: leaf people, and people linked to no one (e.g. left over from an import)
   const canDelete = editingMember 
-    ? (editingMember.id !== data.id && calculateDegree(data, editingMember.id) === 1)
+    ? (editingMember.id !== data.rootId && getDegree(data, editingMember.id) <= 1)
     : false;
 
   return (
     <div className="w-screen h-screen bg-legacy-bg overflow-hidden relative selection:bg-legacy-primary selection:text-white">
       
-      <Header />
+      <Header>
+        {workspace && (
+          <TreeSwitcher
+            trees={workspace.trees}
+            activeTreeId={workspace.activeTreeId}
+            onSwitch={handleSwitchTree}
+            onCreate={handleCreateTree}
+            onRename={handleRenameTree}
+            onDuplicate={handleDuplicateTree}
+            onDelete={handleDeleteTree}
+          />
+        )}
+        {workspace && (
+          <CollaborationPanel
+            key={activeTreeId}
+            status={collaboration.status}
+            error={collaboration.error}
+            peers={collaboration.peers}
+            persons={data.persons}
+            settings={collaboration.settings}
+            defaultRoom={slugify(workspace.trees.find(t => t.id === activeTreeId)?.name || data.persons[data.rootId].name)}
+            onConnect={collaboration.connect}
+            onDisconnect={collaboration.disconnect}
+            onSelect={handleFocus}
+          />
+        )}
+      </Header>
       
       <main className="absolute inset-0 z-0">
-        <LegacyTree 
-          data={data} 
-          width={dimensions.width} 
-          height={dimensions.height}
-          onAddParent={handleAddParent}
-          onAddChild={handleAddChild}
-          onAddSpouse={handleAddSpouse}
-          onEdit={(member) => setEditingMember(member)}
-        />
+        {view.layout === 'tree' && (
+          <LegacyTree 
+            key={activeTreeId}
+            data={tree} 
+            mode={view.mode}
+            width={dimensions.width} 
+            height={dimensions.height}
+            onAddParent={handleAddParent}
+            onAddChild={handleAddChild}
+            onAddSpouse={handleAddSpouse}
+            onAddSibling={handleAddSibling}
+            onEdit={(member: D3Member) => setEditingId(member.id)}
+            onEditUnion={setEditingUnionId}
+            onChangeView={handleChangeView}
+            onFocus={handleFocus}
+            labels={labels}
+            highlightPath={kinship?.path}
+            issues={issuesByPerson}
+            presence={presenceByPerson}
+            svgRef={chartRef}
+            drawAll={isChartExportOpen}
+            initialView={initialChartView}
+            onViewChange={handleChartViewChange}
+          />
+        )}
+        {view.layout === 'pedigree' && (
+          <PedigreeChart
+            data={tree}
+            generations={generations}
+            width={dimensions.width}
+            height={dimensions.height}
+            onEdit={(member: Person) => setEditingId(member.id)}
+            onAddParent={handleAddParent}
+            onFocus={handleFocus}
+            highlightPath={kinship?.path}
+            issues={issuesByPerson}
+            svgRef={chartRef}
+          />
+        )}
+        {view.layout === 'fan' && (
+          <FanChart
+            data={tree}
+            generations={generations}
+            width={dimensions.width}
+            height={dimensions.height}
+            onEdit={(member: Person) => setEditingId(member.id)}
+            onAddParent={handleAddParent}
+            onFocus={handleFocus}
+            highlightPath={kinship?.path}
+            issues={issuesByPerson}
+            svgRef={chartRef}
+          />
+        )}
       </main>
 
+      <ViewSwitcher
+        layout={view.layout}
+        mode={view.mode}
+        generations={generations}
+        focusName={data.persons[focusId].name}
+        rootName={focusId !== data.rootId ? data.persons[data.rootId].name : undefined}
+        onChangeLayout={(layout) => setView(prev => ({ ...prev, layout }))}
+        onChangeMode={(mode) => setView({ layout: 'tree', mode, focusId })}
+        onChangeGenerations={setGenerations}
+        onResetFocus={() => handleFocus(data.rootId)}
+        onMakeRoot={handleMakeRoot}
+      />
+
+      <ValidationPanel
+        issues={issues}
+        persons={data.persons}
+        onSelect={setEditingId}
+      />
+
+      <RelationshipPanel
+        people={Object.values(data.persons)}
+        fromId={kinshipFromId}
+        toId={kinshipToId}
+        result={kinship}
+        onChange={(fromId, toId) => setKinshipQuery({ fromId, toId })}
+        autoLabels={autoLabels}
+        onToggleAutoLabels={() => setAutoLabels(prev => !prev)}
+        focusName={data.persons[focusId].name}
+      />
+
       {editingMember && (
         <EditModal 
           member={editingMember} 
           onSave={handleUpdateMember} 
           onDelete={handleDeleteMember}
-          onClose={() => setEditingMember(null)} 
+          onClose={() => setEditingId(null)} 
           canDelete={canDelete}
+          validate={(draft) => validatePerson(data, draft)}
+        />
+      )}
+
+      {editingUnion && (
+        <PartnershipModal
+          partnership={editingUnion}
+          partnerNames={[data.persons[editingUnion.partnerIds[0]].name, data.persons[editingUnion.partnerIds[1]].name]}
+          childCount={getPartnershipChildIds(data, editingUnion).length}
+          onSave={handleUpdateUnion}
+          onClose={() => setEditingUnionId(null)}
+        />
+      )}
+
+      {importReport && (
+        <ImportReport
+          title={importReport.title}
+          summary={importReport.summary}
+          items={importReport.items}
+          onClose={() => setImportReport(null)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportModeDialog
+          fileName={pendingImport.fileName}
+          incomingName={pendingImport.graph.persons[pendingImport.graph.rootId].name}
+          onChoose={handleConfirmImport}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
+
+      {duplicates && (
+        <MergeReviewDialog
+          graph={data}
+          candidates={duplicates}
+          onMerge={handleMergeDuplicate}
+          onDismiss={handleDismissDuplicate}
+          onClose={handleCloseDuplicates}
+        />
+      )}
+
+      {chartExportSize && (
+        <ExportChartDialog
+          chartSize={chartExportSize}
+          isExporting={isExportingChart}
+          onExport={handleExportChart}
+          onClose={handleCloseChartExport}
         />
       )}
 
       <NavigationInstructions />
 
+      <Toolbar
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        onImportGedcom={handleImportGedcom}
+        onExportGedcom={handleExportGedcom}
+        onImportJson={handleImportJson}
+        onExportJson={handleExportJson}
+        onFindDuplicates={handleFindDuplicates}
+        onExportChart={handleOpenChartExport}
+        isExporting={isExporting}
+      />
+
       <div className="fixed inset-0 pointer-events-none opacity-[0.05] mix-blend-multiply z-40" 
            style={{ backgroundImage: `url("data:image/svg+xml,%3Csvg viewBox='0 0 200 200' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='noiseFilter'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.8' numOctaves='3' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23noiseFilter)'/%3E%3C/svg%3E")` }}>
       </div>
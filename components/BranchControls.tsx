@@ -0,0 +1,43 @@
+import React from 'react';
+
+interface BranchControlsProps {
+  collapsedCount: number;
+  onExpandAll: () => void;
+  // Collapses every branch more than `generations` generations above the focus person
+  onCollapseTo: (generations: number) => void;
+}
+
+const GENERATION_CHOICES = [1, 2, 3, 4, 5, 6];
+
+const buttonClass = "px-3 py-2 font-serif font-bold text-[10px] md:text-xs tracking-widest uppercase text-legacy-primary hover:bg-legacy-light transition-colors disabled:opacity-40 disabled:pointer-events-none";
+
+const BranchControls: React.FC<BranchControlsProps> = ({ collapsedCount, onExpandAll, onCollapseTo }) => {
+  return (
+    <div className="absolute bottom-28 md:bottom-40 left-4 md:left-12 z-40 flex items-stretch bg-white/90 border border-legacy-primary/20 rounded shadow-md overflow-hidden">
+      <button
+        type="button"
+        onClick={onExpandAll}
+        disabled={collapsedCount === 0}
+        className={buttonClass}
+        title="Show every collapsed ancestor branch"
+      >
+        Expand All
+      </button>
+      <label className="flex items-center gap-2 px-3 border-l border-legacy-primary/20 font-serif font-bold text-[10px] md:text-xs text-legacy-primary tracking-widest uppercase">
+        Collapse to
+        <select
+          value=""
+          onChange={(e) => e.target.value && onCollapseTo(Number(e.target.value))}
+          className="bg-transparent outline-none cursor-pointer"
+        >
+          <option value="">…</option>
+          {GENERATION_CHOICES.map(n => (
+            <option key={n} value={n}>{n} generation{n === 1 ? '' : 's'}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default BranchControls;
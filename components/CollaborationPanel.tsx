@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { FaChevronDown, FaTimes, FaUsers } from 'react-icons/fa';
+import { Person } from '../types.ts';
+import { DEFAULT_SYNC_URL, PeerState } from '../services/sync.ts';
+import { SyncSettings, SyncStatus } from '../hooks/useCollaboration.ts';
+import { COMPACT_INPUT_CLASS, COMPACT_LABEL_CLASS } from './styles.ts';
+
+interface CollaborationPanelProps {
+  status: SyncStatus;
+  error: string | null;
+  peers: PeerState[];
+  persons: Record<string, Person>;
+  // The settings last connected with, or the suggested room for this tree
+  settings?: SyncSettings;
+  defaultRoom: string;
+  onConnect: (settings: SyncSettings) => void;
+  onDisconnect: () => void;
+  // Centers the chart on the person a collaborator is looking at
+  onSelect: (personId: string) => void;
+}
+
+const STATUS_LABELS: Record<SyncStatus, string> = {
+  offline: 'Not Shared',
+  connecting: 'Connecting…',
+  online: 'Shared'
+};
+
+// Editing the tree together: join a room on a sync server and see who else is in it
+const CollaborationPanel: React.FC<CollaborationPanelProps> = ({ status, error, peers, persons, settings, defaultRoom, onConnect, onDisconnect, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState<SyncSettings>(() => settings ?? { url: DEFAULT_SYNC_URL, room: defaultRoom, name: '' });
+  const canConnect = !!(form.url.trim() && form.room.trim() && form.name.trim());
+
+  const handleConnect = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canConnect) return;
+    onConnect({ url: form.url.trim(), room: form.room.trim(), name: form.name.trim() });
+  };
+
+  const describe = ({ viewingId, editingId }: PeerState['presence']) => {
+    if (editingId && persons[editingId]) return { id: editingId, text: `Editing ${persons[editingId].name}` };
+    if (viewingId && persons[viewingId]) return { id: viewingId, text: `Viewing ${persons[viewingId].name}` };
+    return null;
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        aria-expanded={isOpen}
+        className="flex items-center gap-2 px-3 py-1 border border-legacy-light/40 rounded font-serif text-[9px] md:text-sm font-bold text-legacy-light tracking-widest uppercase hover:bg-legacy-light/10 transition-colors"
+        title="Edit this tree together with others"
+      >
+        <span className={`w-2 h-2 rounded-full ${status === 'online' ? 'bg-green-400' : status === 'connecting' ? 'bg-amber-400' : 'bg-legacy-light/40'}`}></span>
+        <FaUsers size={12} />
+        {status === 'online' && peers.length > 0 && <span>{peers.length}</span>}
+        <FaChevronDown size={10} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-64 md:w-80 bg-white border border-legacy-primary/20 rounded shadow-xl z-[60]">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+            <span className="font-serif text-[10px] font-bold text-legacy-mute tracking-widest uppercase">
+              {STATUS_LABELS[status]}{status === 'online' && settings ? ` · ${settings.room}` : ''}
+            </span>
+            <button type="button" onClick={() => setIsOpen(false)} className="text-legacy-mute hover:text-legacy-primary" title="Close">
+              <FaTimes size={12} />
+            </button>
+          </div>
+
+          {status === 'offline' ? (
+            <form onSubmit={handleConnect} className="p-3 space-y-2">
+              <div>
+                <label className={COMPACT_LABEL_CLASS} htmlFor="sync-name">Your Name</label>
+                <input id="sync-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={COMPACT_INPUT_CLASS} placeholder="Shown to the others" />
+              </div>
+              <div>
+                <label className={COMPACT_LABEL_CLASS} htmlFor="sync-room">Room</label>
+                <input id="sync-room" value={form.room} onChange={(e) => setForm({ ...form, room: e.target.value })} className={COMPACT_INPUT_CLASS} />
+              </div>
+              <div>
+                <label className={COMPACT_LABEL_CLASS} htmlFor="sync-url">Sync Server</label>
+                <input id="sync-url" value={form.url} onChange={(e) => setForm({ ...form, url: e.target.value })} className={COMPACT_INPUT_CLASS} />
+              </div>
+              <p className="text-[10px] text-legacy-mute">
+                Everyone in the same room edits one tree. Joining a room that already has a tree replaces the one open here.
+              </p>
+              {error && <p className="text-[10px] text-red-700">{error}</p>}
+              <button
+                type="submit"
+                disabled={!canConnect}
+                className="w-full px-3 py-1.5 bg-legacy-primary text-white rounded hover:bg-legacy-dark transition-colors font-serif font-bold text-[10px] tracking-widest uppercase disabled:opacity-40"
+              >
+                Join Room
+              </button>
+            </form>
+          ) : (
+            <>
+              <ul className="max-h-72 overflow-y-auto">
+                {peers.length === 0 && (
+                  <li className="px-3 py-2 text-xs text-legacy-mute font-serif italic">
+                    {status === 'online' ? 'Nobody else is here yet.' : 'Joining the room…'}
+                  </li>
+                )}
+                {peers.map(({ collaborator, presence }) => {
+                  const where = describe(presence);
+                  return (
+                    <li key={collaborator.id}>
+                      <button
+                        type="button"
+                        onClick={() => where && onSelect(where.id)}
+                        disabled={!where}
+                        className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-legacy-light transition-colors disabled:pointer-events-none"
+                      >
+                        <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: collaborator.color }}></span>
+                        <span className="flex flex-col min-w-0">
+                          <span className="font-serif text-xs font-bold text-legacy-dark truncate uppercase">{collaborator.name}</span>
+                          {where && <span className="text-[10px] text-legacy-mute truncate">{where.text}</span>}
+                        </span>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+              <div className="border-t border-gray-100 p-3">
+                <button
+                  type="button"
+                  onClick={onDisconnect}
+                  className="w-full px-3 py-1.5 border border-gray-300 rounded text-legacy-mute hover:bg-gray-50 transition-colors font-serif font-bold text-[10px] tracking-widest uppercase"
+                >
+                  Leave Room
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CollaborationPanel;
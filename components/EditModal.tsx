@@ -1,269 +1,120 @@
-import React, { useState, useRef, useEffect, MouseEvent as ReactMouseEvent, TouchEvent as ReactTouchEvent } from 'react';
-import { FaTimes, FaCamera, FaTrash, FaCheck, FaSearchMinus, FaSearchPlus, FaUndo } from 'react-icons/fa';
-import { FamilyMember, D3Member } from '../types.ts';
-import { COLORS } from '../constants.ts';
+import React, { useState, useRef } from 'react';
+import { FaTimes, FaCamera, FaTrash, FaCrop } from 'react-icons/fa';
+import { Gender, MediaItem, PortraitCrop, Person } from '../types.ts';
+import { formatDate, parseDate } from '../utils/dates.ts';
+import EventFields, { toEvent } from './EventFields.tsx';
+import { INPUT_CLASS, LABEL_CLASS } from './styles.ts';
+import { ValidationIssue } from '../utils/validation.ts';
+import { useFocusTrap } from '../hooks/useFocusTrap.ts';
+import MediaGallery, { readMediaFiles } from './MediaGallery.tsx';
+import ImageCropper from './ImageCropper.tsx';
 
 interface EditModalProps {
-  member: D3Member | FamilyMember;
-  onSave: (id: string, updates: Partial<FamilyMember>) => void;
+  member: Person;
+  onSave: (id: string, updates: Partial<Person>) => void;
   onDelete: (id: string) => void;
   onClose: () => void;
   canDelete: boolean;
+  // Checks the edited details against the rest of the tree, for hints shown before saving
+  validate?: (draft: Person) => ValidationIssue[];
 }
 
-const VIEWPORT_SIZE = 240;
+type EditTab = 'details' | 'gallery';
 
-const ImageCropper = ({ src, onConfirm, onCancel }: { src: string, onConfirm: (s: string) => void, onCancel: () => void }) => {
-  const [zoom, setZoom] = useState(1);
-  const [offset, setOffset] = useState({ x: 0, y: 0 });
-  const [isDragging, setIsDragging] = useState(false);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
-  const imgRef = useRef<HTMLImageElement>(null);
-  
-  // Image natural dimensions
-  const [naturalSize, setNaturalSize] = useState({ w: 0, h: 0 });
-  // Base rendered dimensions (at zoom 1) to cover the viewport
-  const [baseSize, setBaseSize] = useState({ w: 0, h: 0 });
-
-  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
-    const img = e.currentTarget;
-    const nw = img.naturalWidth;
-    const nh = img.naturalHeight;
-    setNaturalSize({ w: nw, h: nh });
-
-    // Calculate base size to "cover" the viewport
-    const aspect = nw / nh;
-    let bw, bh;
-    
-    if (aspect > 1) {
-      // Landscape: Height matches viewport, Width is larger
-      bh = VIEWPORT_SIZE;
-      bw = VIEWPORT_SIZE * aspect;
-    } else {
-      // Portrait or Square: Width matches viewport, Height is larger
-      bw = VIEWPORT_SIZE;
-      bh = VIEWPORT_SIZE / aspect;
-    }
-    setBaseSize({ w: bw, h: bh });
-  };
-
-  // Drag Logic
-  const handleMouseDown = (e: ReactMouseEvent | ReactTouchEvent) => {
-    setIsDragging(true);
-    const clientX = 'touches' in e ? e.touches[0].clientX : (e as ReactMouseEvent).clientX;
-    const clientY = 'touches' in e ? e.touches[0].clientY : (e as ReactMouseEvent).clientY;
-    setDragStart({ x: clientX - offset.x, y: clientY - offset.y });
-  };
-
-  const handleMouseMove = (e: ReactMouseEvent | ReactTouchEvent) => {
-    if (!isDragging) return;
-    e.preventDefault(); 
-    const clientX = 'touches' in e ? e.touches[0].clientX : (e as ReactMouseEvent).clientX;
-    const clientY = 'touches' in e ? e.touches[0].clientY : (e as ReactMouseEvent).clientY;
-    
-    let newX = clientX - dragStart.x;
-    let newY = clientY - dragStart.y;
-
-    // Constraint Logic: Don't let the empty space show inside the viewport
-    // Current Dimensions
-    const curW = baseSize.w * zoom;
-    const curH = baseSize.h * zoom;
-    
-    // Max offset allowed (positive and negative)
-    // The center of the image relative to center of viewport
-    // Edge of image is at center + curW/2. Viewport edge is viewport/2.
-    // We want center + curW/2 >= viewport/2  => center >= viewport/2 - curW/2
-    // So max offset (right/down) is (curW - VIEWPORT_SIZE)/2
-    const maxX = (curW - VIEWPORT_SIZE) / 2;
-    const maxY = (curH - VIEWPORT_SIZE) / 2;
-
-    newX = Math.max(-maxX, Math.min(maxX, newX));
-    newY = Math.max(-maxY, Math.min(maxY, newY));
-
-    setOffset({ x: newX, y: newY });
-  };
-
-  const handleMouseUp = () => {
-    setIsDragging(false);
-  };
-
-  const handleCrop = () => {
-    const canvas = document.createElement('canvas');
-    // Set output resolution (e.g. 400x400 for good quality)
-    const outputSize = 400; 
-    canvas.width = outputSize;
-    canvas.height = outputSize;
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx || !imgRef.current) return;
-
-    // Calculate source rectangle
-    // We need to map the Viewport rectangle (0,0, VIEWPORT, VIEWPORT) relative to the Rendered Image
-    // Rendered Image TopLeft relative to Viewport TopLeft:
-    // Center of Viewport is (VIEWPORT/2, VIEWPORT/2)
-    // Center of Image is (VIEWPORT/2 + offset.x, VIEWPORT/2 + offset.y)
-    // TopLeft of Image is (CenterImageX - CurW/2, CenterImageY - CurH/2)
-    // = (VIEWPORT/2 + offset.x - CurW/2, ...)
-    
-    const curW = baseSize.w * zoom;
-    const curH = baseSize.h * zoom;
-    
-    const imgRenderedX = (VIEWPORT_SIZE / 2) + offset.x - (curW / 2);
-    const imgRenderedY = (VIEWPORT_SIZE / 2) + offset.y - (curH / 2);
-
-    // The Viewport starts at (0,0) in viewport space.
-    // In Rendered Image space, the Viewport starts at (-imgRenderedX, -imgRenderedY).
-    const cropStartX_Rendered = -imgRenderedX;
-    const cropStartY_Rendered = -imgRenderedY;
-
-    // Scale factor from Rendered -> Natural
-    const scale = naturalSize.w / curW;
-
-    const sx = cropStartX_Rendered * scale;
-    const sy = cropStartY_Rendered * scale;
-    const sw = VIEWPORT_SIZE * scale;
-    const sh = VIEWPORT_SIZE * scale;
-
-    ctx.drawImage(imgRef.current, sx, sy, sw, sh, 0, 0, outputSize, outputSize);
-    
-    onConfirm(canvas.toDataURL('image/jpeg', 0.9));
-  };
-
-  // Reset if zoom changes causing out of bounds
-  useEffect(() => {
-    // Re-run constraint logic simply by clamping current offset
-    if(baseSize.w === 0) return;
-    
-    const curW = baseSize.w * zoom;
-    const curH = baseSize.h * zoom;
-    const maxX = (curW - VIEWPORT_SIZE) / 2;
-    const maxY = (curH - VIEWPORT_SIZE) / 2;
-    
-    setOffset(prev => ({
-        x: Math.max(-maxX, Math.min(maxX, prev.x)),
-        y: Math.max(-maxY, Math.min(maxY, prev.y))
-    }));
-  }, [zoom, baseSize]);
-
-  return (
-    <div className="flex flex-col items-center animate-in fade-in zoom-in duration-300">
-        <h3 className="font-serif text-lg font-bold text-legacy-dark mb-4">Crop Profile Picture</h3>
-        
-        {/* Cropper Viewport */}
-        <div 
-            className="relative overflow-hidden bg-gray-900 shadow-inner cursor-move group"
-            style={{ width: VIEWPORT_SIZE, height: VIEWPORT_SIZE, borderRadius: '50%' }}
-            onMouseDown={handleMouseDown}
-            onMouseMove={handleMouseMove}
-            onMouseUp={handleMouseUp}
-            onMouseLeave={handleMouseUp}
-            onTouchStart={handleMouseDown}
-            onTouchMove={handleMouseMove}
-            onTouchEnd={handleMouseUp}
-        >
-             {/* Image */}
-             <img 
-                ref={imgRef}
-                src={src}
-                alt="Crop target"
-                onLoad={handleImageLoad}
-                draggable={false}
-                style={{
-                    width: baseSize.w * zoom,
-                    height: baseSize.h * zoom,
-                    maxWidth: 'none',
-                    maxHeight: 'none',
-                    transform: `translate(-50%, -50%) translate(${offset.x}px, ${offset.y}px)`,
-                    position: 'absolute',
-                    top: '50%',
-                    left: '50%',
-                    objectFit: 'fill', // We handle sizing manually
-                    pointerEvents: 'none', // Let container handle events
-                    userSelect: 'none'
-                }}
-             />
-             
-             {/* Grid Overlay for visual aid */}
-             <div className="absolute inset-0 pointer-events-none opacity-30"
-                  style={{ backgroundImage: 'linear-gradient(rgba(255,255,255,0.3) 1px, transparent 1px), linear-gradient(90deg, rgba(255,255,255,0.3) 1px, transparent 1px)', backgroundSize: '33% 33%' }}
-             ></div>
-        </div>
-        
-        <p className="text-[10px] text-legacy-mute mt-2 uppercase tracking-widest">Drag to Reposition</p>
-
-        {/* Controls */}
-        <div className="w-full px-8 mt-4 space-y-4">
-            <div className="flex items-center gap-3 text-legacy-primary">
-                <FaSearchMinus size={12} />
-                <input 
-                    type="range" 
-                    min="1" 
-                    max="3" 
-                    step="0.01" 
-                    value={zoom} 
-                    onChange={(e) => setZoom(parseFloat(e.target.value))}
-                    className="w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-legacy-primary"
-                />
-                <FaSearchPlus size={12} />
-            </div>
-        </div>
-
-        {/* Actions */}
-        <div className="flex w-full gap-4 mt-6">
-            <button
-                type="button"
-                onClick={onCancel}
-                className="flex-1 px-4 py-2 border border-gray-300 rounded text-legacy-mute hover:bg-gray-50 transition-colors font-serif font-bold text-xs tracking-wide"
-            >
-                CANCEL
-            </button>
-            <button
-                type="button"
-                onClick={handleCrop}
-                className="flex-1 px-4 py-2 bg-legacy-primary text-white rounded hover:bg-legacy-dark transition-colors font-serif font-bold text-xs tracking-wide shadow-md flex items-center justify-center gap-2"
-            >
-                <FaCheck /> APPLY
-            </button>
-        </div>
-    </div>
-  );
-};
+const tabClass = (isActive: boolean) =>
+  `flex-1 px-4 py-2 font-serif font-bold text-xs tracking-widest uppercase transition-colors ${
+    isActive ? 'bg-legacy-primary text-white' : 'text-legacy-primary hover:bg-legacy-light'
+  }`;
 
-const EditModal: React.FC<EditModalProps> = ({ member, onSave, onDelete, onClose, canDelete }) => {
+const EditModal: React.FC<EditModalProps> = ({ member, onSave, onDelete, onClose, canDelete, validate }) => {
   const [name, setName] = useState(member.name);
-  const [year, setYear] = useState(member.year);
   const [relationship, setRelationship] = useState(member.relationship || '');
+  const [gender, setGender] = useState<Gender>(member.gender || 'unknown');
+  const [birthDate, setBirthDate] = useState(formatDate(member.birth?.date));
+  const [birthPlace, setBirthPlace] = useState(member.birth?.place || '');
+  const [deathDate, setDeathDate] = useState(formatDate(member.death?.date));
+  const [deathPlace, setDeathPlace] = useState(member.death?.place || '');
+  const [notes, setNotes] = useState(member.notes || '');
   const [imageUrl, setImageUrl] = useState(member.imageUrl);
+  const [media, setMedia] = useState<MediaItem[]>(member.media || []);
+  const [portraitMediaId, setPortraitMediaId] = useState(member.portraitMediaId);
+  const [tab, setTab] = useState<EditTab>('details');
   
-  // Cropper State
-  const [imageToCrop, setImageToCrop] = useState<string | null>(null);
+  // Cropper State: the photo being cropped into the portrait
+  const [cropTarget, setCropTarget] = useState<MediaItem | null>(null);
+
+  // Escape backs out of the cropper first, then closes the dialog
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(dialogRef, () => (cropTarget ? setCropTarget(null) : onClose()));
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // A new portrait upload is kept in the gallery, so it can be cropped again later
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        // Instead of setting imageUrl directly, set it to crop state
-        setImageToCrop(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
     // Reset value so same file can be selected again if needed
     e.target.value = '';
+    if (!file) return;
+    try {
+      const [photo] = await readMediaFiles([file]);
+      if (!photo) return;
+      setMedia(prev => [...prev, photo]);
+      setCropTarget(photo);
+    } catch (err) {
+      console.error(err);
+      alert("Could not read the selected picture.");
+    }
   };
 
-  const handleCropConfirm = (croppedUrl: string) => {
+  // The photo keeps the crop settings next to the result, so the crop can be reopened later
+  const handleCropConfirm = (croppedUrl: string, crop: PortraitCrop) => {
+      if (!cropTarget) return;
+      const photoId = cropTarget.id;
       setImageUrl(croppedUrl);
-      setImageToCrop(null);
+      setPortraitMediaId(photoId);
+      setMedia(prev => prev.map(item => (item.id === photoId ? { ...item, portrait: croppedUrl, crop } : item)));
+      setCropTarget(null);
   };
 
   const handleCropCancel = () => {
-      setImageToCrop(null);
+      setCropTarget(null);
   };
 
+  // Photos cropped before switch back to their saved crop; others are cropped first
+  const handleUseAsPortrait = (photo: MediaItem) => {
+    if (!photo.portrait) {
+      setCropTarget(photo);
+      return;
+    }
+    setImageUrl(photo.portrait);
+    setPortraitMediaId(photo.id);
+  };
+
+  // Removing the portrait's photo keeps the portrait itself
+  const handleMediaChange = (next: MediaItem[]) => {
+    setMedia(next);
+    if (portraitMediaId && !next.some(item => item.id === portraitMediaId)) setPortraitMediaId(undefined);
+  };
+
+  const portraitPhoto = media.find(item => item.id === portraitMediaId);
+
+  const hasInvalidDate = parseDate(birthDate) === null || parseDate(deathDate) === null;
+  const buildUpdates = (): Partial<Person> => ({
+    name,
+    imageUrl,
+    relationship,
+    gender,
+    birth: toEvent(birthDate, birthPlace),
+    death: toEvent(deathDate, deathPlace),
+    notes: notes.trim() || undefined,
+    media: media.length > 0 ? media : undefined,
+    portraitMediaId
+  });
+  // Unreadable dates already have their own hint, so only check the rest once they parse
+  const hints = validate && !hasInvalidDate ? validate({ ...member, ...buildUpdates() }) : [];
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSave(member.id, { name, year, imageUrl, relationship });
+    if (hasInvalidDate) return;
+    onSave(member.id, buildUpdates());
     onClose();
   };
 
@@ -280,10 +131,19 @@ const EditModal: React.FC<EditModalProps> = ({ member, onSave, onDelete, onClose
         onClick={onClose}
       ></div>
       
-      <div className="relative bg-white w-full max-w-md rounded-lg shadow-2xl p-8 border border-gray-200 animate-in fade-in zoom-in duration-200">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="edit-member-title"
+        tabIndex={-1}
+        className="relative bg-white w-full max-w-md max-h-[90vh] overflow-y-auto rounded-lg shadow-2xl p-8 border border-gray-200 animate-in fade-in zoom-in duration-200 outline-none"
+      >
         
-        {!imageToCrop && (
+        {!cropTarget && (
             <button 
+                type="button"
+                aria-label="Close"
                 onClick={onClose}
                 className="absolute top-4 right-4 text-legacy-mute hover:text-legacy-primary transition-colors"
             >
@@ -292,21 +152,41 @@ const EditModal: React.FC<EditModalProps> = ({ member, onSave, onDelete, onClose
         )}
 
         {/* --- CROPPER MODE --- */}
-        {imageToCrop ? (
+        {cropTarget ? (
             <ImageCropper 
-                src={imageToCrop} 
+                src={cropTarget.src} 
+                initialCrop={cropTarget.crop}
                 onConfirm={handleCropConfirm} 
                 onCancel={handleCropCancel} 
             />
         ) : (
             /* --- NORMAL FORM MODE --- */
             <>
-                <h2 className="font-serif text-2xl font-bold text-legacy-dark mb-6 text-center border-b border-gray-100 pb-4">
+                <h2 id="edit-member-title" className="font-serif text-2xl font-bold text-legacy-dark mb-6 text-center border-b border-gray-100 pb-4">
                 Edit Family Member
                 </h2>
 
+                <div role="tablist" className="flex border border-legacy-primary/20 rounded overflow-hidden mb-6">
+                    <button type="button" role="tab" aria-selected={tab === 'details'} onClick={() => setTab('details')} className={tabClass(tab === 'details')}>
+                    Details
+                    </button>
+                    <button type="button" role="tab" aria-selected={tab === 'gallery'} onClick={() => setTab('gallery')} className={tabClass(tab === 'gallery')}>
+                    Gallery{media.length > 0 ? ` (${media.length})` : ''}
+                    </button>
+                </div>
+
                 <form onSubmit={handleSubmit} className="space-y-6">
-                
+
+                {tab === 'gallery' ? (
+                    <MediaGallery
+                        media={media}
+                        portraitMediaId={portraitMediaId}
+                        onChange={handleMediaChange}
+                        onUseAsPortrait={handleUseAsPortrait}
+                        onCrop={setCropTarget}
+                    />
+                ) : (
+                <>
                 {/* Image Uploader */}
                 <div className="flex flex-col items-center justify-center">
                     <div className="relative group cursor-pointer w-32 h-32 rounded-full overflow-hidden border-4 border-legacy-light hover:border-legacy-accent transition-colors bg-gray-100">
@@ -328,6 +208,16 @@ const EditModal: React.FC<EditModalProps> = ({ member, onSave, onDelete, onClose
                     <span className="mt-2 text-xs font-serif text-legacy-mute tracking-widest uppercase">
                     Click to Upload & Crop
                     </span>
+                    {/* The original photo is kept, so the current crop can be adjusted */}
+                    {portraitPhoto && (
+                        <button
+                            type="button"
+                            onClick={() => setCropTarget(portraitPhoto)}
+                            className="mt-1 flex items-center gap-1 text-[10px] font-serif font-bold text-legacy-primary tracking-widest uppercase hover:text-legacy-accent transition-colors"
+                        >
+                            <FaCrop size={10} /> Edit Crop
+                        </button>
+                    )}
                 </div>
 
                 {/* Fields */}
@@ -359,20 +249,51 @@ const EditModal: React.FC<EditModalProps> = ({ member, onSave, onDelete, onClose
                         />
                     </div>
                     <div>
-                        <label className="block text-xs font-bold text-legacy-mute uppercase tracking-wider mb-1">
-                        Birth Year
+                        <label className={LABEL_CLASS}>
+                        Gender
                         </label>
-                        <input
-                        type="text"
-                        value={year}
-                        onChange={(e) => setYear(e.target.value)}
-                        className="w-full px-4 py-2 bg-gray-700 text-white border border-gray-600 rounded focus:ring-2 focus:ring-legacy-accent focus:border-transparent outline-none font-sans placeholder-gray-400"
-                        placeholder="e.g. 1955"
-                        />
+                        <select
+                        value={gender}
+                        onChange={(e) => setGender(e.target.value as Gender)}
+                        className={INPUT_CLASS}
+                        >
+                        <option value="unknown">Unknown</option>
+                        <option value="female">Female</option>
+                        <option value="male">Male</option>
+                        </select>
+                    </div>
                     </div>
+
+                    <EventFields label="Birth" date={birthDate} place={birthPlace} onDateChange={setBirthDate} onPlaceChange={setBirthPlace} />
+                    <EventFields label="Death" date={deathDate} place={deathPlace} onDateChange={setDeathDate} onPlaceChange={setDeathPlace} />
+
+                    <div>
+                    <label className={LABEL_CLASS}>
+                        Biography
+                    </label>
+                    <textarea
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        rows={4}
+                        className={`${INPUT_CLASS} resize-y`}
+                        placeholder="Stories, occupation, anything worth remembering"
+                    />
                     </div>
                 </div>
 
+                {/* Consistency hints: saving is still allowed */}
+                {hints.length > 0 && (
+                    <ul className="space-y-1 p-3 bg-amber-50 border border-amber-200 rounded text-xs">
+                    {hints.map((hint, i) => (
+                        <li key={i} className={hint.severity === 'error' ? 'text-red-700' : 'text-amber-800'}>
+                        {hint.message}
+                        </li>
+                    ))}
+                    </ul>
+                )}
+                </>
+                )}
+
                 {/* Buttons */}
                 <div className="flex items-center justify-between pt-6 mt-4 border-t border-gray-100 gap-4">
                     {canDelete ? (
@@ -0,0 +1,54 @@
+import React from 'react';
+import { LifeEvent } from '../types.ts';
+import { parseDate } from '../utils/dates.ts';
+import { INPUT_CLASS, LABEL_CLASS } from './styles.ts';
+
+// Builds an event from the form; an event with neither date nor place is left out entirely
+export const toEvent = (dateText: string, place: string): LifeEvent | undefined => {
+  const date = parseDate(dateText) || undefined;
+  const trimmedPlace = place.trim();
+  if (!date && !trimmedPlace) return undefined;
+  return { ...(date && { date }), ...(trimmedPlace && { place: trimmedPlace }) };
+};
+
+interface EventFieldsProps {
+  label: string;
+  date: string;
+  place: string;
+  onDateChange: (value: string) => void;
+  onPlaceChange: (value: string) => void;
+}
+
+// Date and place inputs for one event, with an inline hint when the date cannot be read
+const EventFields: React.FC<EventFieldsProps> = ({ label, date, place, onDateChange, onPlaceChange }) => {
+  const isInvalid = parseDate(date) === null;
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <label className={LABEL_CLASS}>{label} Date</label>
+        <input
+          type="text"
+          value={date}
+          onChange={(e) => onDateChange(e.target.value)}
+          className={`${INPUT_CLASS} ${isInvalid ? 'ring-2 ring-red-400' : ''}`}
+          placeholder="e.g. abt. 1925"
+        />
+        {isInvalid && (
+          <p className="mt-1 text-[10px] text-red-500">Try "1925", "Mar 1925", "12 Mar 1925" or "abt. 1925".</p>
+        )}
+      </div>
+      <div>
+        <label className={LABEL_CLASS}>{label} Place</label>
+        <input
+          type="text"
+          value={place}
+          onChange={(e) => onPlaceChange(e.target.value)}
+          className={INPUT_CLASS}
+          placeholder="e.g. Liverpool, England"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default EventFields;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import { ChartExportFormat, ChartSize, PaperSize, PosterOptions, posterLayout } from '../services/chartExport.ts';
+
+interface ExportChartDialogProps {
+  // Size of the whole chart in screen pixels
+  chartSize: ChartSize;
+  isExporting: boolean;
+  onExport: (format: ChartExportFormat, options: PosterOptions) => void;
+  onClose: () => void;
+}
+
+const FORMATS: { value: ChartExportFormat; label: string; description: string }[] = [
+  { value: 'svg', label: 'SVG', description: 'Scalable vector file with portraits and fonts included.' },
+  { value: 'png', label: 'PNG', description: 'High-resolution image for printing or sharing.' },
+  { value: 'pdf', label: 'PDF', description: 'Poster split over several sheets to print and join.' }
+];
+
+const PAPER_LABELS: Record<PaperSize, string> = { a4: 'A4', letter: 'US Letter', a3: 'A3' };
+const DPI_CHOICES = [150, 300, 600];
+
+const selectClass = "w-full px-3 py-2 bg-white border border-legacy-primary/20 rounded font-serif text-sm text-legacy-dark outline-none focus:ring-2 focus:ring-legacy-accent";
+const labelClass = "block text-xs font-bold text-legacy-mute uppercase tracking-wider mb-1";
+
+const ExportChartDialog: React.FC<ExportChartDialogProps> = ({ chartSize, isExporting, onExport, onClose }) => {
+  const [format, setFormat] = useState<ChartExportFormat>('pdf');
+  const [options, setOptions] = useState<PosterOptions>({ paper: 'a4', landscape: true, pagesAcross: 2, dpi: 300 });
+  const update = (changes: Partial<PosterOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  // Screen pixels are 96 to the inch
+  const pixelWidth = Math.round(chartSize.width * options.dpi / 96);
+  const pixelHeight = Math.round(chartSize.height * options.dpi / 96);
+  const layout = posterLayout(chartSize, options);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-legacy-primary/40 backdrop-blur-sm"
+        onClick={onClose}
+      ></div>
+
+      <div className="relative bg-white w-full max-w-md rounded-lg shadow-2xl p-8 border border-gray-200 animate-in fade-in zoom-in duration-200">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-legacy-mute hover:text-legacy-primary transition-colors"
+        >
+          <FaTimes size={20} />
+        </button>
+
+        <h2 className="font-serif text-2xl font-bold text-legacy-dark mb-2 text-center">
+          Export Chart
+        </h2>
+        <p className="text-sm text-legacy-mute text-center mb-6 border-b border-gray-100 pb-4">
+          The whole chart is exported, including the parts off screen.
+        </p>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {FORMATS.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setFormat(value)}
+                className={`px-3 py-2 border rounded font-serif font-bold text-sm tracking-wide transition-colors ${
+                  format === value ? 'bg-legacy-primary border-legacy-primary text-white' : 'border-legacy-primary/30 text-legacy-primary hover:bg-legacy-light'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-legacy-dark">{FORMATS.find(f => f.value === format)?.description}</p>
+
+          {format !== 'svg' && (
+            <label className="block">
+              <span className={labelClass}>Resolution</span>
+              <select value={options.dpi} onChange={(e) => update({ dpi: Number(e.target.value) })} className={selectClass}>
+                {DPI_CHOICES.map(dpi => <option key={dpi} value={dpi}>{dpi} DPI</option>)}
+              </select>
+            </label>
+          )}
+
+          {format === 'png' && (
+            <p className="text-xs text-legacy-mute">
+              {pixelWidth} × {pixelHeight} pixels, {(chartSize.width / 96).toFixed(1)} × {(chartSize.height / 96).toFixed(1)} inches at {options.dpi} DPI.
+            </p>
+          )}
+
+          {format === 'pdf' && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block">
+                  <span className={labelClass}>Paper</span>
+                  <select value={options.paper} onChange={(e) => update({ paper: e.target.value as PaperSize })} className={selectClass}>
+                    {(Object.keys(PAPER_LABELS) as PaperSize[]).map(paper => <option key={paper} value={paper}>{PAPER_LABELS[paper]}</option>)}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className={labelClass}>Orientation</span>
+                  <select value={options.landscape ? 'landscape' : 'portrait'} onChange={(e) => update({ landscape: e.target.value === 'landscape' })} className={selectClass}>
+                    <option value="portrait">Portrait</option>
+                    <option value="landscape">Landscape</option>
+                  </select>
+                </label>
+              </div>
+              <label className="block">
+                <span className={labelClass}>Sheets across</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={options.pagesAcross}
+                  onChange={(e) => update({ pagesAcross: Math.min(10, Math.max(1, Number(e.target.value) || 1)) })}
+                  className={selectClass}
+                />
+              </label>
+              <p className="text-xs text-legacy-mute">
+                {layout.columns * layout.rows} sheet{layout.columns * layout.rows === 1 ? '' : 's'}: {layout.columns} across and {layout.rows} down.
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-4 pt-6 mt-6 border-t border-gray-100">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-3 border border-gray-300 rounded text-legacy-mute hover:bg-gray-50 transition-colors font-serif font-bold text-sm tracking-wide"
+          >
+            CANCEL
+          </button>
+          <button
+            type="button"
+            onClick={() => onExport(format, options)}
+            disabled={isExporting}
+            className="flex-1 px-4 py-3 bg-legacy-primary text-white rounded hover:bg-legacy-dark transition-colors font-serif font-bold text-sm tracking-wide shadow-lg disabled:opacity-60"
+          >
+            {isExporting ? 'EXPORTING…' : 'EXPORT'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportChartDialog;
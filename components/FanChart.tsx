@@ -0,0 +1,252 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { FamilyMember, Person } from '../types.ts';
+import { COLORS } from '../constants.ts';
+import { formatLifespan } from '../utils/dates.ts';
+import { ahnentafelSlots, childSlotOf, generationOf, lineOf } from '../utils/ahnentafel.ts';
+import { ValidationIssue } from '../utils/validation.ts';
+import { drawIssueBadge } from './LegacyTree.tsx';
+
+interface FanChartProps {
+  data: FamilyMember;
+  // Generations shown, the focus person included
+  generations: number;
+  width: number;
+  height: number;
+  onEdit: (member: Person) => void;
+  onAddParent: (id: string) => void;
+  onFocus: (id: string) => void;
+  highlightPath?: string[];
+  issues?: Record<string, ValidationIssue[]>;
+  svgRef?: React.RefObject<SVGSVGElement>;
+}
+
+// Every ahnentafel slot of the chart, known or not, so each generation gets equal shares of the fan
+interface SlotNode {
+  slot: number;
+  children?: SlotNode[];
+}
+
+// The fan opens downwards, spanning 270 degrees
+const FAN_ANGLE = Math.PI * 1.5;
+const CENTER_RADIUS = 80;
+const RING_WIDTH = 90;
+
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+// Radial fan chart: the focus person in the middle and each generation of ancestors in a ring
+// around them, fathers' lines on the left and mothers' on the right.
+const FanChart: React.FC<FanChartProps> = ({ data, generations, width, height, onEdit, onAddParent, onFocus, highlightPath, issues, svgRef: externalSvgRef }) => {
+  const ownSvgRef = useRef<SVGSVGElement>(null);
+  const svgRef = externalSvgRef || ownSvgRef;
+  const currentZoomState = useRef<d3.ZoomTransform | null>(null);
+  const zoomedView = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+
+    const slots = ahnentafelSlots(data, generations);
+    const buildSlot = (slot: number): SlotNode => ({
+      slot,
+      children: generationOf(slot) + 1 < generations ? [buildSlot(slot * 2), buildSlot(slot * 2 + 1)] : undefined
+    });
+    const root = d3.hierarchy(buildSlot(1)).sum(d => (d.children ? 0 : 1));
+    d3.partition<SlotNode>().size([FAN_ANGLE, generations])(root);
+    const partitioned = root as d3.HierarchyRectangularNode<SlotNode>;
+
+    const innerRadius = (depth: number) => CENTER_RADIUS + (depth - 1) * RING_WIDTH;
+    const arc = d3.arc<d3.HierarchyRectangularNode<SlotNode>>()
+      .startAngle(d => d.x0 - FAN_ANGLE / 2)
+      .endAngle(d => d.x1 - FAN_ANGLE / 2)
+      .innerRadius(d => innerRadius(d.depth))
+      .outerRadius(d => innerRadius(d.depth) + RING_WIDTH - 2)
+      .padAngle(0.004);
+    const chartRadius = innerRadius(generations);
+
+    const zoomGroup = svg.append("g");
+    const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([0.2, 2])
+      .on("zoom", (event) => {
+        zoomGroup.attr("transform", event.transform);
+        currentZoomState.current = event.transform;
+      });
+    svg.call(zoom);
+
+    // Keep the user's position while editing; a new focus or depth starts with the whole fan in view
+    const viewKey = `${data.id}:${generations}`;
+    if (currentZoomState.current && zoomedView.current === viewKey) {
+      svg.call(zoom.transform, currentZoomState.current);
+    } else {
+      const scale = Math.max(0.2, Math.min(1, (width - 80) / (chartRadius * 2), (height - 240) / (chartRadius * 1.75)));
+      svg.call(zoom.transform, d3.zoomIdentity.translate(width / 2, height / 2 + 80).scale(scale));
+      zoomedView.current = viewKey;
+    }
+
+    const pathIds = new Set(highlightPath || []);
+    const defs = svg.append("defs");
+    const arcsGroup = zoomGroup.append("g").attr("class", "nodes");
+
+    // Point at a given angle (0 is straight up) and radius
+    const pointAt = (angle: number, radius: number): [number, number] => [radius * Math.sin(angle), -radius * Math.cos(angle)];
+
+    partitioned.descendants().filter(d => d.depth > 0).forEach(d => {
+      const member = slots.get(d.data.slot);
+      const child = slots.get(childSlotOf(d.data.slot));
+      // Unknown ancestors of unknown people are left blank
+      if (!member && !child) return;
+
+      const midAngle = (d.x0 + d.x1) / 2 - FAN_ANGLE / 2;
+      const midRadius = innerRadius(d.depth) + RING_WIDTH / 2;
+      const group = arcsGroup.append("g");
+
+      if (!member) {
+        const placeholder = group.append("g")
+          .attr("class", "add-slot")
+          .style("cursor", "pointer")
+          .on("click", (e) => {
+            e.stopPropagation();
+            onAddParent(child!.id);
+          });
+        placeholder.append("path")
+          .attr("d", arc(d))
+          .attr("fill", COLORS.background)
+          .attr("fill-opacity", 0.4)
+          .attr("stroke", COLORS.link)
+          .attr("stroke-dasharray", "4 4");
+        const [px, py] = pointAt(midAngle, midRadius);
+        placeholder.append("text")
+          .attr("transform", `translate(${px}, ${py})`)
+          .attr("dy", 5)
+          .attr("text-anchor", "middle")
+          .text("+")
+          .attr("fill", COLORS.subText)
+          .attr("font-size", "14px")
+          .attr("font-weight", "bold");
+        placeholder.append("title").text(`Add a parent of ${child!.name}`);
+        return;
+      }
+
+      const isHighlighted = pathIds.has(member.id);
+      const line = lineOf(d.data.slot);
+      const segment = group.append("g")
+        .style("cursor", "pointer")
+        .on("click", (e) => {
+          e.stopPropagation();
+          onEdit(member);
+        });
+
+      segment.append("path")
+        .attr("d", arc(d))
+        .attr("fill", line === 'paternal' ? COLORS.paternal : COLORS.maternal)
+        .attr("fill-opacity", Math.max(0.12, 0.4 - d.depth * 0.05))
+        .attr("stroke", isHighlighted ? COLORS.highlight : COLORS.background)
+        .attr("stroke-width", isHighlighted ? 4 : 1.5);
+
+      // Wide inner rings read along the arc; narrow outer ones read outwards from the centre
+      const degrees = toDegrees(midAngle);
+      const alongArc = d.depth <= 2;
+      const rotation = alongArc
+        ? (Math.abs(degrees) > 90 ? degrees + 180 : degrees)
+        : (midAngle < 0 ? degrees + 90 : degrees - 90);
+      const room = alongArc ? (d.x1 - d.x0) * midRadius : RING_WIDTH;
+      const fontSize = d.depth <= 3 ? 11 : 9;
+      const [tx, ty] = pointAt(midAngle, midRadius);
+      const label = segment.append("g")
+        .attr("transform", `translate(${tx}, ${ty}) rotate(${rotation})`)
+        .style("pointer-events", "none");
+      label.append("text")
+        .attr("dy", -2)
+        .attr("text-anchor", "middle")
+        .text(truncate(member.name.toUpperCase(), Math.floor(room / (fontSize * 0.75))))
+        .attr("fill", COLORS.text)
+        .attr("font-family", "Cinzel, serif")
+        .attr("font-size", `${fontSize}px`)
+        .attr("font-weight", "bold");
+      label.append("text")
+        .attr("dy", fontSize + 2)
+        .attr("text-anchor", "middle")
+        .text(formatLifespan(member))
+        .attr("fill", COLORS.subText)
+        .attr("font-family", "Lato, sans-serif")
+        .attr("font-size", `${fontSize - 1}px`);
+      segment.append("title").text(member.name);
+
+      const [bx, by] = pointAt(d.x0 - FAN_ANGLE / 2 + 0.02, innerRadius(d.depth) + RING_WIDTH - 14);
+      drawIssueBadge(segment, issues?.[member.id], bx, by);
+
+      // -- CONTROLS --
+      const controls = group.append("g")
+        .attr("class", "controls")
+        .attr("opacity", 0)
+        .style("transition", "opacity 0.2s ease");
+      const [cx, cy] = pointAt(midAngle, innerRadius(d.depth) + RING_WIDTH - 12);
+      const hasMore = generationOf(d.data.slot) + 1 === generations && (member.parents || []).length > 0;
+      const focusBtn = controls.append("g")
+        .attr("transform", `translate(${cx}, ${cy})`)
+        .style("cursor", "pointer")
+        .on("click", (e) => {
+          e.stopPropagation();
+          onFocus(member.id);
+        });
+      focusBtn.append("circle").attr("r", 9).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
+      focusBtn.append("text").attr("dy", 3.5).attr("text-anchor", "middle").text(hasMore ? "▸" : "◎").attr("font-size", "10px");
+      focusBtn.append("title").text(hasMore ? "Show Earlier Generations" : "Center Chart Here");
+
+      segment.on("mouseenter", () => controls.attr("opacity", 1))
+             .on("mouseleave", () => controls.attr("opacity", 0));
+      controls.on("mouseenter", () => controls.attr("opacity", 1))
+              .on("mouseleave", () => controls.attr("opacity", 0));
+    });
+
+    // The focus person in the middle
+    const centerGroup = arcsGroup.append("g")
+      .style("cursor", "pointer")
+      .on("click", (e) => {
+        e.stopPropagation();
+        onEdit(data);
+      });
+    centerGroup.append("circle")
+      .attr("r", CENTER_RADIUS - 4)
+      .attr("fill", COLORS.background)
+      .attr("stroke", pathIds.has(data.id) ? COLORS.highlight : COLORS.nodeBorder)
+      .attr("stroke-width", pathIds.has(data.id) ? 4 : 2);
+    defs.append("clipPath").attr("id", "fan-center-clip")
+      .append("circle").attr("cy", -18).attr("r", 32);
+    centerGroup.append("image")
+      .attr("xlink:href", data.imageUrl)
+      .attr("x", -32)
+      .attr("y", -50)
+      .attr("width", 64)
+      .attr("height", 64)
+      .attr("clip-path", "url(#fan-center-clip)");
+    centerGroup.append("text")
+      .attr("dy", 30)
+      .attr("text-anchor", "middle")
+      .text(truncate(data.name.toUpperCase(), 16))
+      .attr("fill", COLORS.text)
+      .attr("font-family", "Cinzel, serif")
+      .attr("font-size", "10px")
+      .attr("font-weight", "bold");
+    centerGroup.append("text")
+      .attr("dy", 44)
+      .attr("text-anchor", "middle")
+      .text(formatLifespan(data))
+      .attr("fill", COLORS.subText)
+      .attr("font-family", "Lato, sans-serif")
+      .attr("font-size", "9px");
+    drawIssueBadge(centerGroup, issues?.[data.id], 50, -50);
+
+  }, [data, generations, width, height, onEdit, onAddParent, onFocus, highlightPath, issues]);
+
+  return (
+    <div className="w-full h-full cursor-grab active:cursor-grabbing overflow-hidden relative bg-legacy-bg">
+      <svg ref={svgRef} width={width} height={height} className="block" />
+    </div>
+  );
+};
+
+export default FanChart;
@@ -0,0 +1,328 @@
+import React, { useRef, useState, MouseEvent as ReactMouseEvent, TouchEvent as ReactTouchEvent } from 'react';
+import { FaCheck, FaRedo, FaSearchMinus, FaSearchPlus, FaUndo } from 'react-icons/fa';
+import { PortraitCrop, PortraitFormat, PortraitTone } from '../types.ts';
+
+interface ImageCropperProps {
+  // The original picture, which is never changed
+  src: string;
+  // Settings of an earlier crop of the same picture, to carry on from
+  initialCrop?: PortraitCrop;
+  onConfirm: (croppedUrl: string, crop: PortraitCrop) => void;
+  onCancel: () => void;
+}
+
+const VIEWPORT_SIZE = 240;
+
+export const DEFAULT_CROP: PortraitCrop = {
+  zoom: 1,
+  offsetX: 0,
+  offsetY: 0,
+  rotation: 0,
+  straighten: 0,
+  brightness: 100,
+  contrast: 100,
+  tone: 'none',
+  outputSize: 400,
+  format: 'image/jpeg'
+};
+
+const OUTPUT_SIZES = [200, 400, 800];
+
+const FORMATS: { format: PortraitFormat; label: string }[] = [
+  { format: 'image/jpeg', label: 'JPEG' },
+  { format: 'image/webp', label: 'WebP' },
+  { format: 'image/png', label: 'PNG' }
+];
+
+const TONES: { tone: PortraitTone; label: string }[] = [
+  { tone: 'none', label: 'Color' },
+  { tone: 'grayscale', label: 'B & W' },
+  { tone: 'sepia', label: 'Sepia' }
+];
+
+const SLIDER_CLASS = "w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-legacy-primary";
+const CAPTION_CLASS = "text-[10px] text-legacy-mute uppercase tracking-widest";
+const SELECT_CLASS = "flex-1 px-2 py-1 border border-gray-300 rounded text-xs text-legacy-primary bg-white";
+
+const optionClass = (isActive: boolean) =>
+  `flex-1 px-2 py-1 font-serif font-bold text-[10px] tracking-widest uppercase transition-colors ${
+    isActive ? 'bg-legacy-primary text-white' : 'text-legacy-primary hover:bg-legacy-light'
+  }`;
+
+// Total turn of the picture, in radians
+const angleOf = (crop: PortraitCrop) => ((crop.rotation + crop.straighten) * Math.PI) / 180;
+
+// Colour adjustments, written the same way for the preview (CSS) and the output (canvas)
+const filterOf = ({ brightness, contrast, tone }: PortraitCrop) =>
+  `brightness(${brightness}%) contrast(${contrast}%)${tone === 'none' ? '' : ` ${tone}(100%)`}`;
+
+// A square turned by `angle` spans (|cos| + |sin|) times its side along the picture's axes
+const spreadOf = (angle: number) => Math.abs(Math.cos(angle)) + Math.abs(Math.sin(angle));
+
+// Picture size at zoom 1: just large enough to cover the viewport at its current angle
+const baseSizeOf = (natural: { w: number; h: number }, angle: number) => {
+  const cover = VIEWPORT_SIZE * spreadOf(angle);
+  const aspect = natural.w / natural.h;
+  return aspect > 1 ? { w: cover * aspect, h: cover } : { w: cover, h: cover / aspect };
+};
+
+// Don't let empty space show inside the viewport: the offset is limited along the picture's own
+// (turned) axes, then turned back to screen space
+const clampOffset = (x: number, y: number, size: { w: number; h: number }, angle: number) => {
+  const spread = (VIEWPORT_SIZE / 2) * spreadOf(angle);
+  const maxU = Math.max(0, size.w / 2 - spread);
+  const maxV = Math.max(0, size.h / 2 - spread);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const u = Math.max(-maxU, Math.min(maxU, x * cos + y * sin));
+  const v = Math.max(-maxV, Math.min(maxV, -x * sin + y * cos));
+  return { x: u * cos - v * sin, y: u * sin + v * cos };
+};
+
+// Crops a square portrait out of a photo. Only the settings are edited here; the photo itself is
+// kept as it was, so the crop can be reopened and changed later.
+const ImageCropper: React.FC<ImageCropperProps> = ({ src, initialCrop, onConfirm, onCancel }) => {
+  const [crop, setCrop] = useState<PortraitCrop>({ ...DEFAULT_CROP, ...initialCrop });
+  const [isDragging, setIsDragging] = useState(false);
+  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
+  const imgRef = useRef<HTMLImageElement>(null);
+
+  // Image natural dimensions
+  const [naturalSize, setNaturalSize] = useState({ w: 0, h: 0 });
+
+  const angle = angleOf(crop);
+  const base = naturalSize.w ? baseSizeOf(naturalSize, angle) : { w: 0, h: 0 };
+  const size = { w: base.w * crop.zoom, h: base.h * crop.zoom };
+  const offset = { x: crop.offsetX * VIEWPORT_SIZE, y: crop.offsetY * VIEWPORT_SIZE };
+
+  // Applies a change, pulling the picture back over the viewport if it no longer covers it
+  const withinBounds = (next: PortraitCrop, natural = naturalSize): PortraitCrop => {
+    if (!natural.w) return next;
+    const nextAngle = angleOf(next);
+    const nextBase = baseSizeOf(natural, nextAngle);
+    const nextSize = { w: nextBase.w * next.zoom, h: nextBase.h * next.zoom };
+    const { x, y } = clampOffset(next.offsetX * VIEWPORT_SIZE, next.offsetY * VIEWPORT_SIZE, nextSize, nextAngle);
+    return { ...next, offsetX: x / VIEWPORT_SIZE, offsetY: y / VIEWPORT_SIZE };
+  };
+  const update = (changes: Partial<PortraitCrop>) => setCrop(prev => withinBounds({ ...prev, ...changes }));
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const natural = { w: e.currentTarget.naturalWidth, h: e.currentTarget.naturalHeight };
+    setNaturalSize(natural);
+    setCrop(prev => withinBounds(prev, natural));
+  };
+
+  // Drag Logic
+  const handleMouseDown = (e: ReactMouseEvent | ReactTouchEvent) => {
+    setIsDragging(true);
+    const clientX = 'touches' in e ? e.touches[0].clientX : (e as ReactMouseEvent).clientX;
+    const clientY = 'touches' in e ? e.touches[0].clientY : (e as ReactMouseEvent).clientY;
+    setDragStart({ x: clientX - offset.x, y: clientY - offset.y });
+  };
+
+  const handleMouseMove = (e: ReactMouseEvent | ReactTouchEvent) => {
+    if (!isDragging) return;
+    e.preventDefault();
+    const clientX = 'touches' in e ? e.touches[0].clientX : (e as ReactMouseEvent).clientX;
+    const clientY = 'touches' in e ? e.touches[0].clientY : (e as ReactMouseEvent).clientY;
+    update({
+      offsetX: (clientX - dragStart.x) / VIEWPORT_SIZE,
+      offsetY: (clientY - dragStart.y) / VIEWPORT_SIZE
+    });
+  };
+
+  const handleMouseUp = () => {
+    setIsDragging(false);
+  };
+
+  // Draws the viewport at the output size, with the same transform and filters as the preview
+  const handleCrop = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = crop.outputSize;
+    canvas.height = crop.outputSize;
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx || !imgRef.current) return;
+
+    ctx.filter = filterOf(crop);
+    ctx.scale(crop.outputSize / VIEWPORT_SIZE, crop.outputSize / VIEWPORT_SIZE);
+    ctx.translate(VIEWPORT_SIZE / 2 + offset.x, VIEWPORT_SIZE / 2 + offset.y);
+    ctx.rotate(angle);
+    ctx.drawImage(imgRef.current, -size.w / 2, -size.h / 2, size.w, size.h);
+
+    onConfirm(canvas.toDataURL(crop.format, 0.9), crop);
+  };
+
+  const rotateBy = (degrees: number) => update({ rotation: (crop.rotation + degrees + 360) % 360 });
+
+  return (
+    <div className="flex flex-col items-center animate-in fade-in zoom-in duration-300">
+        <h3 className="font-serif text-lg font-bold text-legacy-dark mb-4">Crop Profile Picture</h3>
+
+        {/* Cropper Viewport */}
+        <div
+            className="relative overflow-hidden bg-gray-900 shadow-inner cursor-move group"
+            style={{ width: VIEWPORT_SIZE, height: VIEWPORT_SIZE, borderRadius: '50%' }}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
+            onTouchStart={handleMouseDown}
+            onTouchMove={handleMouseMove}
+            onTouchEnd={handleMouseUp}
+        >
+             {/* Image */}
+             <img
+                ref={imgRef}
+                src={src}
+                alt="Crop target"
+                onLoad={handleImageLoad}
+                draggable={false}
+                style={{
+                    width: size.w,
+                    height: size.h,
+                    maxWidth: 'none',
+                    maxHeight: 'none',
+                    transform: `translate(-50%, -50%) translate(${offset.x}px, ${offset.y}px) rotate(${crop.rotation + crop.straighten}deg)`,
+                    filter: filterOf(crop),
+                    position: 'absolute',
+                    top: '50%',
+                    left: '50%',
+                    objectFit: 'fill', // We handle sizing manually
+                    pointerEvents: 'none', // Let container handle events
+                    userSelect: 'none'
+                }}
+             />
+
+             {/* Grid Overlay for visual aid */}
+             <div className="absolute inset-0 pointer-events-none opacity-30"
+                  style={{ backgroundImage: 'linear-gradient(rgba(255,255,255,0.3) 1px, transparent 1px), linear-gradient(90deg, rgba(255,255,255,0.3) 1px, transparent 1px)', backgroundSize: '33% 33%' }}
+             ></div>
+        </div>
+
+        <p className={`${CAPTION_CLASS} mt-2`}>Drag to Reposition</p>
+
+        {/* Controls */}
+        <div className="w-full px-8 mt-4 space-y-4">
+            <div className="flex items-center gap-3 text-legacy-primary">
+                <FaSearchMinus size={12} />
+                <input
+                    type="range"
+                    min="1"
+                    max="3"
+                    step="0.01"
+                    value={crop.zoom}
+                    onChange={(e) => update({ zoom: parseFloat(e.target.value) })}
+                    className={SLIDER_CLASS}
+                    aria-label="Zoom"
+                />
+                <FaSearchPlus size={12} />
+            </div>
+
+            {/* Quarter turns on the buttons, straightening on the slider */}
+            <div className="flex items-center gap-3 text-legacy-primary">
+                <button type="button" onClick={() => rotateBy(-90)} className="hover:text-legacy-accent transition-colors" title="Rotate Left">
+                    <FaUndo size={12} />
+                </button>
+                <input
+                    type="range"
+                    min="-45"
+                    max="45"
+                    step="0.5"
+                    value={crop.straighten}
+                    onChange={(e) => update({ straighten: parseFloat(e.target.value) })}
+                    className={SLIDER_CLASS}
+                    aria-label="Straighten"
+                    title={`Straighten: ${crop.straighten}°`}
+                />
+                <button type="button" onClick={() => rotateBy(90)} className="hover:text-legacy-accent transition-colors" title="Rotate Right">
+                    <FaRedo size={12} />
+                </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+                <label className="block">
+                    <span className={CAPTION_CLASS}>Brightness</span>
+                    <input
+                        type="range"
+                        min="50"
+                        max="150"
+                        value={crop.brightness}
+                        onChange={(e) => update({ brightness: parseInt(e.target.value, 10) })}
+                        className={SLIDER_CLASS}
+                    />
+                </label>
+                <label className="block">
+                    <span className={CAPTION_CLASS}>Contrast</span>
+                    <input
+                        type="range"
+                        min="50"
+                        max="150"
+                        value={crop.contrast}
+                        onChange={(e) => update({ contrast: parseInt(e.target.value, 10) })}
+                        className={SLIDER_CLASS}
+                    />
+                </label>
+            </div>
+
+            <div className="flex border border-legacy-primary/20 rounded overflow-hidden">
+                {TONES.map(option => (
+                    <button key={option.tone} type="button" onClick={() => update({ tone: option.tone })} className={optionClass(option.tone === crop.tone)}>
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+
+            {/* Output */}
+            <div className="flex items-center gap-2">
+                <span className={CAPTION_CLASS}>Save as</span>
+                <select
+                    value={crop.outputSize}
+                    onChange={(e) => update({ outputSize: parseInt(e.target.value, 10) })}
+                    className={SELECT_CLASS}
+                    aria-label="Output size"
+                >
+                    {OUTPUT_SIZES.map(outputSize => <option key={outputSize} value={outputSize}>{outputSize} × {outputSize}</option>)}
+                </select>
+                <select
+                    value={crop.format}
+                    onChange={(e) => update({ format: e.target.value as PortraitFormat })}
+                    className={SELECT_CLASS}
+                    aria-label="Output format"
+                >
+                    {FORMATS.map(option => <option key={option.format} value={option.format}>{option.label}</option>)}
+                </select>
+            </div>
+
+            <button
+                type="button"
+                onClick={() => setCrop(prev => ({ ...DEFAULT_CROP, outputSize: prev.outputSize, format: prev.format }))}
+                className={`${CAPTION_CLASS} w-full text-center hover:text-legacy-primary transition-colors`}
+            >
+                Reset Adjustments
+            </button>
+        </div>
+
+        {/* Actions */}
+        <div className="flex w-full gap-4 mt-6">
+            <button
+                type="button"
+                onClick={onCancel}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded text-legacy-mute hover:bg-gray-50 transition-colors font-serif font-bold text-xs tracking-wide"
+            >
+                CANCEL
+            </button>
+            <button
+                type="button"
+                onClick={handleCrop}
+                disabled={!naturalSize.w}
+                className="flex-1 px-4 py-2 bg-legacy-primary text-white rounded hover:bg-legacy-dark transition-colors font-serif font-bold text-xs tracking-wide shadow-md flex items-center justify-center gap-2 disabled:opacity-40"
+            >
+                <FaCheck /> APPLY
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default ImageCropper;
@@ -0,0 +1,89 @@
+import React, { useRef } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import { useFocusTrap } from '../hooks/useFocusTrap.ts';
+
+// Merge matches people by id; combine adds the imported people alongside and looks for duplicates
+export type ImportMode = 'replace' | 'merge' | 'combine';
+
+interface ImportModeDialogProps {
+  fileName: string;
+  incomingName: string;
+  onChoose: (mode: ImportMode) => void;
+  onClose: () => void;
+}
+
+const ImportModeDialog: React.FC<ImportModeDialogProps> = ({ fileName, incomingName, onChoose, onClose }) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(dialogRef, onClose);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-legacy-primary/40 backdrop-blur-sm"
+        onClick={onClose}
+      ></div>
+
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-mode-title"
+        className="relative bg-white w-full max-w-md rounded-lg shadow-2xl p-8 border border-gray-200 animate-in fade-in zoom-in duration-200"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-legacy-mute hover:text-legacy-primary transition-colors"
+          aria-label="Close"
+        >
+          <FaTimes size={20} />
+        </button>
+
+        <h2 id="import-mode-title" className="font-serif text-2xl font-bold text-legacy-dark mb-2 text-center">
+          Import Tree
+        </h2>
+        <p className="text-sm text-legacy-mute text-center mb-6 border-b border-gray-100 pb-4">
+          {fileName} contains {incomingName}'s tree.
+        </p>
+
+        <div className="space-y-3 text-sm text-legacy-dark">
+          <p><strong className="font-serif">Replace</strong> discards the current tree and opens the imported one.</p>
+          <p><strong className="font-serif">Merge</strong> updates people who appear in both trees and adds their new relatives.</p>
+          <p><strong className="font-serif">Add &amp; Find Duplicates</strong> adds everyone from the imported tree, then suggests people who were entered in both so you can merge them.</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 pt-6 mt-6 border-t border-gray-100">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-3 border border-gray-300 rounded text-legacy-mute hover:bg-gray-50 transition-colors font-serif font-bold text-sm tracking-wide"
+          >
+            CANCEL
+          </button>
+          <button
+            type="button"
+            onClick={() => onChoose('merge')}
+            className="px-4 py-3 border border-legacy-primary text-legacy-primary rounded hover:bg-legacy-light transition-colors font-serif font-bold text-sm tracking-wide"
+          >
+            MERGE
+          </button>
+          <button
+            type="button"
+            onClick={() => onChoose('combine')}
+            className="px-4 py-3 border border-legacy-primary text-legacy-primary rounded hover:bg-legacy-light transition-colors font-serif font-bold text-sm tracking-wide"
+          >
+            ADD &amp; FIND DUPLICATES
+          </button>
+          <button
+            type="button"
+            onClick={() => onChoose('replace')}
+            className="px-4 py-3 bg-legacy-primary text-white rounded hover:bg-legacy-dark transition-colors font-serif font-bold text-sm tracking-wide shadow-lg"
+          >
+            REPLACE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportModeDialog;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { FaTimes, FaExclamationTriangle } from 'react-icons/fa';
+
+export interface ImportReportItem {
+  line?: number;
+  xref?: string;
+  message: string;
+}
+
+interface ImportReportProps {
+  title: string;
+  summary: string;
+  items: ImportReportItem[];
+  onClose: () => void;
+}
+
+const ImportReport: React.FC<ImportReportProps> = ({ title, summary, items, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-legacy-primary/40 backdrop-blur-sm"
+        onClick={onClose}
+      ></div>
+
+      <div className="relative bg-white w-full max-w-lg rounded-lg shadow-2xl p-8 border border-gray-200 animate-in fade-in zoom-in duration-200">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-legacy-mute hover:text-legacy-primary transition-colors"
+        >
+          <FaTimes size={20} />
+        </button>
+
+        <h2 className="font-serif text-2xl font-bold text-legacy-dark mb-2 text-center">
+          {title}
+        </h2>
+        <p className="text-sm text-legacy-mute text-center mb-6 border-b border-gray-100 pb-4">
+          {summary}
+        </p>
+
+        {items.length > 0 && (
+          <>
+            <h3 className="flex items-center gap-2 text-xs font-bold text-legacy-mute uppercase tracking-wider mb-2">
+              <span className="text-legacy-accent"><FaExclamationTriangle /></span> {items.length} item{items.length === 1 ? '' : 's'} not imported
+            </h3>
+            <ul className="max-h-64 overflow-y-auto space-y-2 text-sm text-legacy-dark pr-2">
+              {items.map((item, index) => (
+                <li key={index} className="border-l-2 border-legacy-accent pl-3">
+                  {item.message}
+                  {(item.xref || item.line) && (
+                    <span className="block text-[10px] text-legacy-mute uppercase tracking-widest">
+                      {item.xref}{item.xref && item.line ? ' · ' : ''}{item.line ? `Line ${item.line}` : ''}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        <div className="flex pt-6 mt-4 border-t border-gray-100">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-3 bg-legacy-primary text-white rounded hover:bg-legacy-dark transition-colors font-serif font-bold text-sm tracking-wide shadow-lg"
+          >
+            CLOSE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReport;
@@ -1,6 +1,11 @@
 import React from 'react';
 
-export const Header: React.FC = () => {
+interface HeaderProps {
+  // Controls shown after the section names, e.g. the tree switcher
+  children?: React.ReactNode;
+}
+
+export const Header: React.FC<HeaderProps> = ({ children }) => {
   return (
     <div className="fixed top-0 left-0 w-full bg-legacy-primary z-50 shadow-xl border-b border-legacy-dark/20 transition-all duration-300
                     flex flex-col justify-center items-center h-auto py-3 gap-1 md:gap-0
@@ -14,6 +19,7 @@ export const Header: React.FC = () => {
         <span className="font-serif text-[9px] md:text-sm font-bold text-legacy-light/90 tracking-widest select-none cursor-default uppercase">
           The Tree
         </span>
+        {children}
       </div>
 
       {/* Center Logo */}
@@ -58,9 +64,11 @@ export const NavigationInstructions: React.FC = () => {
         NAVIGATION
       </h3>
       <ul className="space-y-1 md:space-y-2 font-serif text-[10px] md:text-xs text-legacy-primary tracking-wider font-bold">
-        <li>ZOOM WITH SCROLL</li>
-        <li>PAN WITH DRAG</li>
+        <li>ZOOM WITH SCROLL OR THE + / − BUTTONS</li>
+        <li>PAN WITH DRAG OR THE MINIMAP</li>
         <li>HOVER PORTRAITS TO EXPAND OPTIONS</li>
+        <li>ARROW KEYS TO MOVE, ENTER TO EDIT</li>
+        <li>CTRL+Z TO UNDO, CTRL+SHIFT+Z TO REDO</li>
       </ul>
     </div>
   );
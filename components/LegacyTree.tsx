@@ -1,40 +1,179 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { FamilyMember, D3Member } from '../types.ts';
+import { ChartViewState, FamilyMember, D3Member, PresenceMarker, SiblingKind, TreeViewMode } from '../types.ts';
 import { COLORS } from '../constants.ts';
+import TreeSearch from './TreeSearch.tsx';
+import BranchControls from './BranchControls.tsx';
+import Minimap from './Minimap.tsx';
+import ZoomControls from './ZoomControls.tsx';
+import { SearchHit } from '../utils/search.ts';
+import { formatLifespan, formatYear } from '../utils/dates.ts';
+import { ValidationIssue } from '../utils/validation.ts';
+import { isPortraitLoaded, loadPortrait } from '../services/portraits.ts';
 
 interface LegacyTreeProps {
   data: FamilyMember;
+  mode: TreeViewMode;
   width: number;
   height: number;
   onAddParent: (id: string) => void;
-  onAddChild: (id: string) => void;
+  // `partnerId` names the other parent when the child is added from a spouse node
+  onAddChild: (id: string, partnerId?: string) => void;
   onAddSpouse: (id: string) => void;
+  onAddSibling: (id: string) => void;
   onEdit: (member: D3Member) => void;
+  onEditUnion: (unionId: string) => void;
+  onChangeView: (id: string, mode: TreeViewMode) => void;
+  onFocus: (id: string) => void;
+  // Generated kinship terms by person id; when set they replace the hand-typed relationship labels
+  labels?: Record<string, string>;
+  // People on a relationship path to emphasise, in order
+  highlightPath?: string[];
+  // Validation issues by person id, drawn as badges
+  issues?: Record<string, ValidationIssue[]>;
+  // Other collaborators on each person, by person id
+  presence?: Record<string, PresenceMarker[]>;
+  // Receives the chart's <svg> so it can be exported
+  svgRef?: React.RefObject<SVGSVGElement>;
+  // Draws every node in full detail, off screen too, e.g. while the chart is being exported
+  drawAll?: boolean;
+  // Where to start: the zoom and open branches the chart was left with
+  initialView?: ChartViewState;
+  // Called when the zoom or the open branches change
+  onViewChange?: (view: ChartViewState) => void;
 }
 
-// Augmented D3 Member to hold pre-calculated spouse tree layout
+// Augmented D3 Member to hold pre-calculated spouse tree layouts, keyed by spouse id
 interface D3MemberWithLayout extends D3Member {
-  spouseTreeLayout?: d3.HierarchyPointNode<D3MemberWithLayout>;
+  spouses?: D3MemberWithLayout[];
+  siblings?: D3MemberWithLayout[];
+  spouseTreeLayouts?: Record<string, d3.HierarchyPointNode<D3MemberWithLayout>>;
+  spouseTreeWidths?: Record<string, number>;
+  // Combined width of all open spouse trees
   spouseTreeWidth?: number;
+  // Set when the member's ancestors are collapsed: how many people the stub stands for
+  hiddenAncestors?: number;
   // D3 injects these:
   x?: number;
   y?: number;
 }
 
-const transformData = (member: FamilyMember): D3MemberWithLayout => {
+// Distinct people above a member in a nested tree
+const countAncestors = (member: FamilyMember): number => {
+  const seen = new Set<string>();
+  const visit = (m: FamilyMember) => m.parents?.forEach(p => {
+    seen.add(p.id);
+    visit(p);
+  });
+  visit(member);
+  return seen.size;
+};
+
+const transformData = (member: FamilyMember, mode: TreeViewMode, collapsedIds: Set<string> = new Set()): D3MemberWithLayout => {
+  const { parents, children, spouses, siblings, ...person } = member;
+  const branches = mode === 'ancestors' ? parents : children;
+  // A collapsed member's ancestors are left out and drawn as a "+N ancestors" stub instead
+  const isCollapsed = mode === 'ancestors' && collapsedIds.has(member.id) && !!parents?.length;
   const d3Node: D3MemberWithLayout = {
-    id: member.id,
-    name: member.name,
-    year: member.year,
-    imageUrl: member.imageUrl,
-    relationship: member.relationship,
-    spouse: member.spouse ? transformData(member.spouse) : undefined,
-    children: member.parents ? member.parents.map(transformData) : undefined
+    ...person,
+    spouses: spouses ? spouses.map(s => transformData(s, mode, collapsedIds)) : undefined,
+    siblings: siblings ? siblings.map(s => transformData(s, mode)) : undefined,
+    children: branches && !isCollapsed ? branches.map(b => transformData(b, mode, collapsedIds)) : undefined,
+    hiddenAncestors: isCollapsed ? countAncestors(member) : undefined
   };
   return d3Node;
 };
 
+const SPOUSE_SPACING = 220;
+
+// Spouses alternate around their partner: the first on the outer side, the second on the inner
+// side, the third further out, and so on. Returns the slot as a multiple of SPOUSE_SPACING.
+const spouseSlot = (index: number) => (index % 2 === 0 ? 1 : -1) * (Math.floor(index / 2) + 1);
+
+const SIBLING_GAP = 170;
+const SIBLING_SPACING = 150;
+
+// Siblings sit in a row on the side opposite the first spouse, beyond any inner spouses.
+// Returns the horizontal offset for a member drawn with direction 1.
+const siblingOffset = (member: D3Member, index: number) =>
+  -(Math.floor((member.spouses?.length || 0) / 2) * SPOUSE_SPACING + SIBLING_GAP + index * SIBLING_SPACING);
+
+// Extra separation (in node slots of ~270px) for a member's spouses and sibling row
+const sideSlots = (member: D3Member) =>
+  0.8 * (member.spouses?.length || 0) + ((member.siblings?.length || 0) * SIBLING_SPACING) / 270;
+
+const SIBLING_LABELS: Record<SiblingKind, Record<string, string>> = {
+  full: { male: "Brother", female: "Sister", unknown: "Sibling" },
+  half: { male: "Half-Brother", female: "Half-Sister", unknown: "Half-Sibling" }
+};
+
+// "WIFE · M. 1950 · DIV. 1962"
+const unionLabel = (spouse: D3Member, relationship?: string) => {
+  const parts = [relationship || "Spouse"];
+  const married = formatYear(spouse.union?.marriage?.date);
+  if (married) parts.push(`m. ${married}`);
+  if (spouse.union?.divorce) {
+    const divorced = formatYear(spouse.union.divorce.date);
+    parts.push(divorced ? `div. ${divorced}` : "div.");
+  }
+  return parts.join(" · ").toUpperCase();
+};
+
+// Red (any errors) or amber (warnings only) badge counting a person's validation issues.
+// Shared with the pedigree and fan charts.
+export const drawIssueBadge = (group: d3.Selection<SVGGElement, any, any, any>, personIssues: ValidationIssue[] | undefined, x: number, y: number) => {
+    if (!personIssues || personIssues.length === 0) return;
+    const hasError = personIssues.some(issue => issue.severity === 'error');
+    const badge = group.append("g")
+        .attr("class", "issue-badge")
+        .attr("transform", `translate(${x}, ${y})`);
+    badge.append("circle")
+        .attr("r", 9)
+        .attr("fill", hasError ? COLORS.error : COLORS.warning)
+        .attr("stroke", COLORS.background)
+        .attr("stroke-width", 2);
+    badge.append("text")
+        .attr("dy", 3.5)
+        .attr("text-anchor", "middle")
+        .text(personIssues.length > 1 ? String(personIssues.length) : "!")
+        .attr("fill", COLORS.background)
+        .attr("font-family", "Lato, sans-serif")
+        .attr("font-size", "10px")
+        .attr("font-weight", "bold");
+    badge.append("title").text(personIssues.map(issue => issue.message).join("\n"));
+};
+
+// Initials of the other collaborators looking at (plain) or editing (ringed) a person
+export const drawPresenceBadges = (group: d3.Selection<SVGGElement, any, any, any>, markers: PresenceMarker[] | undefined, x: number, y: number) => {
+    markers?.forEach((marker, i) => {
+        const badge = group.append("g")
+            .attr("class", "presence-badge")
+            .attr("transform", `translate(${x + i * 14 * Math.sign(x || 1)}, ${y})`);
+        if (marker.editing) {
+            badge.append("circle")
+                .attr("r", 12)
+                .attr("fill", "none")
+                .attr("stroke", marker.color)
+                .attr("stroke-width", 1.5)
+                .attr("stroke-dasharray", "3 2");
+        }
+        badge.append("circle")
+            .attr("r", 9)
+            .attr("fill", marker.color)
+            .attr("stroke", COLORS.background)
+            .attr("stroke-width", 2);
+        badge.append("text")
+            .attr("dy", 3.5)
+            .attr("text-anchor", "middle")
+            .text(marker.name.charAt(0).toUpperCase())
+            .attr("fill", COLORS.background)
+            .attr("font-family", "Lato, sans-serif")
+            .attr("font-size", "10px")
+            .attr("font-weight", "bold");
+        badge.append("title").text(`${marker.name} is ${marker.editing ? 'editing' : 'viewing'} this person`);
+    });
+};
+
 // Deterministic pseudo-random number generator
 const getRandomOffset = (id: string, seedStr: string): number => {
     let h = 0x811c9dc5;
@@ -48,22 +187,269 @@ const getRandomOffset = (id: string, seedStr: string): number => {
     return (float - 0.5) * 2; // -1..1
 };
 
-const LegacyTree: React.FC<LegacyTreeProps> = ({ data, width, height, onAddParent, onAddChild, onAddSpouse, onEdit }) => {
-  const svgRef = useRef<SVGSVGElement>(null);
+// Where a spouse is drawn relative to their partner, with a little randomness like the tree nodes
+const spousePlacement = (spouse: D3Member, index: number, direction: number) => {
+    const slot = spouseSlot(index);
+    return {
+        side: Math.sign(slot) * direction,
+        ring: Math.abs(slot),
+        offsetX: SPOUSE_SPACING * slot * direction + getRandomOffset(spouse.id, 'sx') * 10,
+        offsetY: getRandomOffset(spouse.id, 'sy') * 10
+    };
+};
+
+// Custom wavy link generator
+const wavyPath = (d: d3.HierarchyPointLink<D3MemberWithLayout>, originX: number, originY: number, ySign: number) => {
+    const sx = originX + d.source.x;
+    const sy = originY + ySign * d.source.y;
+    const tx = originX + d.target.x;
+    const ty = originY + ySign * d.target.y;
+
+    // Add a bit of randomness to the control points
+    const seed = d.target.data.id + d.source.data.id;
+    const midY = (sy + ty) / 2;
+    const controlOffset = getRandomOffset(seed, 'curve') * 30; 
+
+    // IMPORTANT: Ensure path is drawn Left-to-Right to make text rendering consistent (always on top)
+    const isTargetLeft = tx < sx;
+
+    if (isTargetLeft) {
+        // Target is left of Source. Draw from Target -> Source
+        return `M ${tx} ${ty} 
+                C ${tx} ${midY - controlOffset}, 
+                  ${sx} ${midY + controlOffset}, 
+                  ${sx} ${sy}`;
+    } else {
+        // Source is left of Target (or vertical). Draw from Source -> Target
+        return `M ${sx} ${sy} 
+                C ${sx} ${midY + controlOffset}, 
+                  ${tx} ${midY - controlOffset}, 
+                  ${tx} ${ty}`;
+    }
+};
+
+// Horizontal slot and vertical step of the tree layout, in pixels
+const NODE_WIDTH = 270;
+const LEVEL_HEIGHT = 300;
+
+// Room between two neighbouring people of a generation, in node slots. Shared by the main tree,
+// the hourglass descendants and every spouse tree.
+const separation = (a: D3MemberWithLayout, b: D3MemberWithLayout, isSiblings: boolean) => {
+    const aSpouseWidth = a.spouseTreeWidth || 0;
+    const bSpouseWidth = b.spouseTreeWidth || 0;
+
+    // Convert pixels to 'node slots' (approx 270px)
+    const extraSpace = (aSpouseWidth + bSpouseWidth) / NODE_WIDTH;
+
+    let sep = isSiblings ? 1.1 : 1.3;
+
+    // Base spouse and sibling spacing
+    sep += sideSlots(a) + sideSlots(b);
+
+    return sep + extraSpace;
+};
+
+// Leftmost or rightmost person of one generation of a subtree, relative to the subtree's root
+interface ContourPoint {
+    x: number;
+    member: D3MemberWithLayout;
+}
+
+// Tidy layout of one person's subtree relative to that person: where each child sits and the outline
+// of every generation below, which is all a parent needs to place the subtree beside its siblings.
+// Kept between renders, so a subtree that did not change is not laid out again.
+interface SubtreeLayout {
+    // What the person's own room depends on besides their children
+    signature: string;
+    children: SubtreeLayout[];
+    // Each child's x relative to the person
+    offsets: number[];
+    left: ContourPoint[];
+    right: ContourPoint[];
+}
+
+const memberSignature = (member: D3MemberWithLayout) => `${sideSlots(member)}:${member.spouseTreeWidth || 0}`;
+
+// Places the children's subtrees side by side, each as close to the previous ones as every
+// generation allows, and centers the person over the first and last child
+const layoutSubtree = (member: D3MemberWithLayout, children: SubtreeLayout[]): SubtreeLayout => {
+    const offsets: number[] = [];
+    let left: ContourPoint[] = [];
+    let right: ContourPoint[] = [];
+    children.forEach((child, i) => {
+        let offset = 0;
+        if (i > 0) {
+            offset = -Infinity;
+            for (let depth = 0; depth < Math.min(right.length, child.left.length); depth++) {
+                const gap = separation(right[depth].member, child.left[depth].member, depth === 0) * NODE_WIDTH;
+                offset = Math.max(offset, right[depth].x + gap - child.left[depth].x);
+            }
+        }
+        offsets.push(offset);
+        const shift = ({ x, member }: ContourPoint) => ({ x: x + offset, member });
+        left = [...left, ...child.left.slice(left.length).map(shift)];
+        right = [...child.right.map(shift), ...right.slice(child.right.length)];
+    });
+
+    const middle = offsets.length > 0 ? (offsets[0] + offsets[offsets.length - 1]) / 2 : 0;
+    const center = ({ x, member }: ContourPoint) => ({ x: x - middle, member });
+    const self = { x: 0, member };
+    return {
+        signature: memberSignature(member),
+        children,
+        offsets: offsets.map(offset => offset - middle),
+        left: [self, ...left.map(center)],
+        right: [self, ...right.map(center)]
+    };
+};
+
+// Smallest and largest zoom, also the limits of the zoom buttons
+const ZOOM_EXTENT: [number, number] = [0.2, 2];
+const ZOOM_STEP = 1.5;
+
+// Nodes further than this outside the screen (in screen pixels) are not drawn
+const CULL_MARGIN = 300;
+// Below this zoom level people are drawn as dots, without portraits or names
+const DETAIL_SCALE = 0.45;
+
+// Chart-space rectangle: left, top, right, bottom
+type Bounds = [number, number, number, number];
+
+// A person on the chart for keyboard navigation: where they are drawn and where each arrow key leads
+interface NavEntry {
+    key: string;
+    member: D3Member;
+    x: number;
+    y: number;
+    level: number;
+    // Set on spouses: the partner they are drawn beside
+    partnerId?: string;
+    up?: string;
+    down?: string;
+    left?: string;
+    right?: string;
+}
+
+// One node of the chart: a member with their siblings and spouses, keyed by member id
+interface NodeItem {
+    key: string;
+    // Everything the node draws, its spouse curves and stub included
+    bounds: Bounds;
+    d: d3.HierarchyPointNode<D3MemberWithLayout>;
+    x: number;
+    y: number;
+    direction: number;
+    isMainTree: boolean;
+    ySign: number;
+    showsAncestors: boolean;
+}
+
+// A parent-child link, keyed by the node it leads to
+interface LinkItem {
+    key: string;
+    bounds: Bounds;
+    link: d3.HierarchyPointLink<D3MemberWithLayout>;
+    path: string;
+}
+
+// What a node's contents were last drawn from, so unchanged nodes are only moved
+const drawnContent = d3.local<string>();
+
+// Portraits load lazily: the href is only set once the picture is cached, and is skipped if the
+// node has been culled or redrawn in the meantime
+const setPortrait = (image: d3.Selection<SVGImageElement, any, any, any>, url: string, eager = false) => {
+    if (eager || isPortraitLoaded(url)) {
+        image.attr("xlink:href", url);
+        return;
+    }
+    loadPortrait(url).then(() => {
+        if (image.node()?.isConnected) image.attr("xlink:href", url);
+    });
+};
+
+const LegacyTree: React.FC<LegacyTreeProps> = ({ data, mode, width, height, onAddParent, onAddChild, onAddSpouse, onAddSibling, onEdit, onEditUnion, onChangeView, onFocus, labels, highlightPath, issues, presence, svgRef: externalSvgRef, drawAll = false, initialView, onViewChange }) => {
+  const ownSvgRef = useRef<SVGSVGElement>(null);
+  const svgRef = externalSvgRef || ownSvgRef;
   const wrapperRef = useRef<HTMLDivElement>(null);
-  const [expandedSpouseIds, setExpandedSpouseIds] = useState<Set<string>>(new Set());
+  const [expandedSpouseIds, setExpandedSpouseIds] = useState<Set<string>>(() => new Set(initialView?.expandedSpouseIds));
+  // Members whose ancestor branches are folded away. Kept by person id, so the set survives re-renders
+  // and edits to the tree; ids of people who have since been deleted are simply never matched.
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(() => new Set(initialView?.collapsedIds));
   
   // Ref to store the current zoom transform state to prevent resetting on re-renders
   const currentZoomState = useRef<d3.ZoomTransform | null>(null);
+  // The chart the stored zoom belongs to; switching to another chart starts from a fresh position
+  const zoomedView = useRef<string | null>(null);
+  // Where each member was drawn in the last render, so a search hit can be panned to
+  const nodePositions = useRef<Map<string, [number, number]>>(new Map());
+  // Search result currently highlighted, and whether the view still has to pan to it
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const pendingCenterId = useRef<string | null>(null);
+  // The zoom behaviour, created with the chart group on the first render
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  // Redraws the nodes in view after a zoom or pan, at most once per frame
+  const drawVisible = useRef<((animate: boolean) => void) | null>(null);
+  const pendingFrame = useRef<number | null>(null);
+  // Zoom as last drawn, for the minimap and zoom buttons, and the starting view to reset to
+  const [viewTransform, setViewTransform] = useState<d3.ZoomTransform>(d3.zoomIdentity);
+  const homeTransform = useRef<d3.ZoomTransform>(d3.zoomIdentity);
+  // Everyone's position and the extent of the whole chart, for the minimap and fit-to-screen
+  const [overview, setOverview] = useState<{ points: [number, number][], bounds: Bounds } | null>(null);
+  // Person that has (or last had) keyboard focus, the only one reachable with Tab, and the one to
+  // focus at the end of the next draw
+  const focusKey = useRef<string | null>(null);
+  const pendingFocus = useRef<string | null>(null);
+  // Subtree layouts of each laid-out tree ('main', 'hourglass' or 'spouse:<id>') by person id
+  const layoutCache = useRef<Map<string, Map<string, SubtreeLayout>>>(new Map());
+  // Nodes are only redrawn when their contents change, so their click handlers read the latest props from here
+  const callbacks = useRef({ onAddParent, onAddChild, onAddSpouse, onAddSibling, onEdit, onEditUnion, onChangeView, onFocus, onViewChange });
+  callbacks.current = { onAddParent, onAddChild, onAddSpouse, onAddSibling, onEdit, onEditUnion, onChangeView, onFocus, onViewChange };
 
   const toggleSpouse = (id: string) => {
-    const newSet = new Set(expandedSpouseIds);
-    if (newSet.has(id)) {
-      newSet.delete(id);
-    } else {
-      newSet.add(id);
-    }
-    setExpandedSpouseIds(newSet);
+    setExpandedSpouseIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Shows `generations` generations above the focus person (and their spouses) and folds the rest
+  const collapseToGeneration = (generations: number) => {
+    const next = new Set<string>();
+    const visit = (member: FamilyMember, depth: number) => {
+      if (depth === generations) {
+        if (member.parents?.length) next.add(member.id);
+        return;
+      }
+      member.parents?.forEach(p => visit(p, depth + 1));
+      member.spouses?.forEach(s => visit(s, depth));
+    };
+    visit(data, 0);
+    setCollapsedIds(next);
+  };
+
+  // Opens every spouse tree and collapsed branch the hit sits in, then highlights and pans to it on the next render
+  const handleSearchSelect = (hit: SearchHit) => {
+    setExpandedSpouseIds(prev => new Set([...prev, ...hit.spousePath]));
+    setCollapsedIds(prev => new Set([...prev].filter(id => !hit.ancestorPath.includes(id))));
+    setHighlightedId(hit.id);
+    pendingCenterId.current = hit.id;
   };
 
   const perturbNodes = (nodes: d3.HierarchyPointNode<D3MemberWithLayout>[]) => {
@@ -79,41 +465,65 @@ const LegacyTree: React.FC<LegacyTreeProps> = ({ data, width, height, onAddParen
       });
   };
 
+  // Lays out one of the trees from the bottom up. A person's subtree layout is reused as long as
+  // their own room and their children's subtree layouts are unchanged, so an edit only lays out the
+  // branch it is in and the people above it; everything else is just moved along.
+  const layoutTree = (key: string, root: d3.HierarchyNode<D3MemberWithLayout>): d3.HierarchyPointNode<D3MemberWithLayout> => {
+    const previous = layoutCache.current.get(key) || new Map<string, SubtreeLayout>();
+    const current = new Map<string, SubtreeLayout>();
+
+    const layOut = (node: d3.HierarchyNode<D3MemberWithLayout>): SubtreeLayout => {
+      const children = (node.children || []).map(layOut);
+      const cached = current.get(node.data.id) || previous.get(node.data.id);
+      const layout = cached
+        && cached.signature === memberSignature(node.data)
+        && cached.children.length === children.length
+        && cached.children.every((child, i) => child === children[i])
+        ? cached
+        : layoutSubtree(node.data, children);
+      current.set(node.data.id, layout);
+      return layout;
+    };
+    const rootLayout = layOut(root);
+    // Only the people still in the tree are kept
+    layoutCache.current.set(key, current);
+
+    const place = (node: d3.HierarchyNode<D3MemberWithLayout>, layout: SubtreeLayout, x: number) => {
+      const pointNode = node as d3.HierarchyPointNode<D3MemberWithLayout>;
+      pointNode.x = x;
+      pointNode.y = node.depth * LEVEL_HEIGHT;
+      node.children?.forEach((child, i) => place(child, layout.children[i], x + layout.offsets[i]));
+    };
+    place(root, rootLayout, 0);
+
+    const layoutRoot = root as d3.HierarchyPointNode<D3MemberWithLayout>;
+    perturbNodes(layoutRoot.descendants());
+    return layoutRoot;
+  };
+
+  // --- Lays out every open spouse tree in a hierarchy and records their widths ---
+  const attachSpouseTreeLayouts = (root: d3.HierarchyNode<D3MemberWithLayout>) => {
+    root.descendants().forEach(node => {
+        node.data.spouses?.forEach(spouse => {
+            if (!expandedSpouseIds.has(spouse.id)) return;
+            const layout = calculateSpouseTreeLayout(spouse);
+            node.data.spouseTreeLayouts = { ...node.data.spouseTreeLayouts, [spouse.id]: layout.root };
+            node.data.spouseTreeWidths = { ...node.data.spouseTreeWidths, [spouse.id]: layout.width };
+            node.data.spouseTreeWidth = (node.data.spouseTreeWidth || 0) + layout.width;
+        });
+    });
+  };
+
   // --- Helper to calculate layout for a spouse tree recursively ---
   const calculateSpouseTreeLayout = (spouseNode: D3MemberWithLayout): { root: d3.HierarchyPointNode<D3MemberWithLayout>, width: number } => {
-    // 1. Create Hierarchy
-    const root = d3.hierarchy<D3MemberWithLayout>(spouseNode);
+    // 1. Create Hierarchy. The spouse's own other partners are not drawn inside their tree.
+    const root = d3.hierarchy<D3MemberWithLayout>({ ...spouseNode, spouses: undefined });
     
     // 2. Pre-process children's spouses recursively to get their widths
-    root.descendants().forEach(node => {
-        if (node.data.spouse && expandedSpouseIds.has(node.data.spouse.id)) {
-            const layout = calculateSpouseTreeLayout(node.data.spouse);
-            node.data.spouseTreeLayout = layout.root;
-            node.data.spouseTreeWidth = layout.width;
-        }
-    });
+    attachSpouseTreeLayouts(root);
 
     // 3. Layout this tree
-    const layout = d3.tree<D3MemberWithLayout>()
-        .nodeSize([270, 300])
-        .separation((a, b) => {
-            const aSpouseWidth = a.data.spouseTreeWidth || 0;
-            const bSpouseWidth = b.data.spouseTreeWidth || 0;
-            
-            // Convert pixels to 'node slots' (approx 270px)
-            const extraSpace = (aSpouseWidth + bSpouseWidth) / 270;
-            
-            let sep = a.parent === b.parent ? 1.1 : 1.3;
-            if (a.data.spouse) sep += 0.8; 
-            if (b.data.spouse) sep += 0.8;
-            
-            return sep + extraSpace;
-        });
-    
-    const layoutRoot = layout(root);
-
-    // Apply perturbation to spouse tree nodes immediately
-    perturbNodes(layoutRoot.descendants());
+    const layoutRoot = layoutTree(`spouse:${spouseNode.id}`, root);
 
     // 4. Calculate total width of this tree
     let minX = Infinity;
@@ -121,12 +531,15 @@ const LegacyTree: React.FC<LegacyTreeProps> = ({ data, width, height, onAddParen
     layoutRoot.each(d => {
         minX = Math.min(minX, d.x);
         maxX = Math.max(maxX, d.x);
-        // Also account for the spouse attached to this node
-        if (d.data.spouseTreeWidth) {
-           // If the node has a spouse tree attached, the bounds extend further
-           maxX = Math.max(maxX, d.x + 220 + d.data.spouseTreeWidth);
-        } else if (d.data.spouse) {
-           maxX = Math.max(maxX, d.x + 220); 
+        // Also account for the spouses attached to this node, and their open trees
+        d.data.spouses?.forEach((spouse, i) => {
+           const spouseX = d.x + SPOUSE_SPACING * spouseSlot(i);
+           const treeWidth = d.data.spouseTreeWidths?.[spouse.id] || 0;
+           minX = Math.min(minX, spouseX - (spouseX < d.x ? treeWidth : 0));
+           maxX = Math.max(maxX, spouseX + (spouseX > d.x ? treeWidth : 0));
+        });
+        if (d.data.siblings) {
+           minX = Math.min(minX, d.x + siblingOffset(d.data, d.data.siblings.length - 1));
         }
     });
     
@@ -140,441 +553,1037 @@ const LegacyTree: React.FC<LegacyTreeProps> = ({ data, width, height, onAddParen
   useEffect(() => {
     if (!svgRef.current || !wrapperRef.current) return;
 
+    const layoutStarted = performance.now();
     const svg = d3.select(svgRef.current);
-    svg.selectAll("*").remove();
 
-    const d3Data = transformData(data);
+    const d3Data = transformData(data, mode, collapsedIds);
     const rootHierarchy = d3.hierarchy<D3MemberWithLayout>(d3Data);
 
     // PRE-CALCULATE SPOUSE LAYOUTS for Main Tree
-    rootHierarchy.descendants().forEach(node => {
-        if (node.data.spouse && expandedSpouseIds.has(node.data.spouse.id)) {
-            const layout = calculateSpouseTreeLayout(node.data.spouse);
-            node.data.spouseTreeLayout = layout.root;
-            node.data.spouseTreeWidth = layout.width;
-        }
-    });
+    attachSpouseTreeLayouts(rootHierarchy);
 
     // MAIN TREE LAYOUT
-    const treeLayout = d3.tree<D3MemberWithLayout>()
-      .nodeSize([270, 300]) 
-      .separation((a, b) => {
-        const aSpouseWidth = a.data.spouseTreeWidth || 0;
-        const bSpouseWidth = b.data.spouseTreeWidth || 0;
-        
-        const extraSpace = (aSpouseWidth + bSpouseWidth) / 270;
+    const mainRoot = layoutTree('main', rootHierarchy);
 
-        let sep = a.parent === b.parent ? 1.1 : 1.3;
-        
-        // Base spouse spacing
-        if (a.data.spouse) sep += 0.8;
-        if (b.data.spouse) sep += 0.8;
-        
-        return sep + extraSpace;
-      });
-
-    treeLayout(rootHierarchy);
-
-    // Perturb main tree nodes
-    perturbNodes(rootHierarchy.descendants());
-
-    const zoomGroup = svg.append("g");
-    
-    const zoom = d3.zoom<SVGSVGElement, unknown>()
-      .scaleExtent([0.2, 2])
-      .on("zoom", (event) => {
-        zoomGroup.attr("transform", event.transform);
-        // Update the ref with the latest transform
-        currentZoomState.current = event.transform;
-      });
+    // HOURGLASS: the ancestor chart also shows the focus person's known descendants below them
+    let descendantHierarchy: d3.HierarchyPointNode<D3MemberWithLayout> | null = null;
+    if (mode === 'ancestors' && data.children && data.children.length > 0) {
+      descendantHierarchy = layoutTree('hourglass', d3.hierarchy<D3MemberWithLayout>(transformData({ ...data, spouses: undefined, siblings: undefined }, 'descendants')));
+    }
 
-    svg.call(zoom);
+    // The chart group and zoom behaviour are created once and kept, so nodes can move between renders
+    let zoomGroup = svg.select<SVGGElement>("g.chart");
+    if (zoomGroup.empty()) {
+      zoomGroup = svg.append("g").attr("class", "chart");
+      zoomGroup.append("g").attr("class", "links");
+      zoomGroup.append("g").attr("class", "nodes");
+    }
+    if (!zoomRef.current) {
+      zoomRef.current = d3.zoom<SVGSVGElement, unknown>()
+        .scaleExtent(ZOOM_EXTENT)
+        .on("zoom", (event) => {
+          zoomGroup.attr("transform", event.transform);
+          // Update the ref with the latest transform
+          currentZoomState.current = event.transform;
+          if (pendingFrame.current === null) {
+            pendingFrame.current = requestAnimationFrame(() => {
+              pendingFrame.current = null;
+              drawVisible.current?.(false);
+              setViewTransform(currentZoomState.current);
+            });
+          }
+        });
+      svg.call(zoomRef.current);
+    }
+    const zoom = zoomRef.current;
+    const linksGroup = zoomGroup.select<SVGGElement>("g.links");
+    const nodesGroup = zoomGroup.select<SVGGElement>("g.nodes");
 
     // Initial Position Logic:
-    // If we have a stored zoom state (from previous interaction), use it.
-    // Otherwise (first render), center the tree at the bottom.
-    if (currentZoomState.current) {
-      svg.call(zoom.transform, currentZoomState.current);
-    } else {
-      const initialTransform = d3.zoomIdentity
-        .translate(width / 2, height - 150)
-        .scale(0.85);
-      svg.call(zoom.transform, initialTransform);
+    // The zoom is kept while the same chart is redrawn. A different chart places the focus person at
+    // the bottom for ancestors, which grow upwards, at the top for descendants, which grow downwards,
+    // or in the middle when an ancestor chart also has descendants below. Re-centering glides there
+    // while the people already on screen move to their new places.
+    const viewKey = `${mode}:${data.id}`;
+    const isNewView = zoomedView.current !== viewKey;
+    const transition = d3.transition<unknown>().duration(isNewView ? 750 : 500).ease(d3.easeCubicInOut);
+    const focusY = mode === 'descendants' ? 260 : descendantHierarchy ? height / 2 : height - 150;
+    homeTransform.current = d3.zoomIdentity
+      .translate(width / 2, focusY)
+      .scale(0.85);
+    if (isNewView) {
+      if (zoomedView.current) {
+        svg.transition().duration(750).ease(d3.easeCubicInOut).call(zoom.transform, homeTransform.current);
+      } else if (initialView) {
+        const { x, y, k } = initialView.transform;
+        svg.call(zoom.transform, d3.zoomIdentity.translate(x, y).scale(k));
+      } else {
+        svg.call(zoom.transform, homeTransform.current);
+      }
+      zoomedView.current = viewKey;
     }
 
-    const defs = svg.append("defs");
-    const linksGroup = zoomGroup.append("g").attr("class", "links");
-    const nodesGroup = zoomGroup.append("g").attr("class", "nodes");
+    const pathIds = new Set(highlightPath || []);
+    const isPathLink = (a: string, b: string) => pathIds.has(a) && pathIds.has(b);
+    const labelFor = (member: D3Member) => labels ? labels[member.id] : member.relationship;
 
+    // --- COLLECT: every node and link of the main tree and the open spouse trees ---
+    const nodeItems: NodeItem[] = [];
+    const linkItems: LinkItem[] = [];
+    const positions = new Map<string, [number, number]>();
+    const remember = (id: string, x: number, y: number) => {
+        if (!positions.has(id)) positions.set(id, [x, y]);
+    };
+    // Nodes are keyed by member id; a person drawn more than once (pedigree collapse) gets a numbered key
+    const occurrences = new Map<string, number>();
+    const keyFor = (id: string) => {
+        const count = (occurrences.get(id) || 0) + 1;
+        occurrences.set(id, count);
+        return count === 1 ? id : `${id}~${count}`;
+    };
 
-    // --- RECURSIVE RENDERING FUNCTION ---
-    const renderTreeRecursive = (
+    // Where the arrow keys lead from each person drawn, by item key: a node's member, or one of their
+    // siblings or spouses ("<node key>/sibling/<id>", "<node key>/spouse/<id>")
+    const navigation = new Map<string, NavEntry>();
+
+    const collectTree = (
         nodes: d3.HierarchyPointNode<D3MemberWithLayout>[], 
         links: d3.HierarchyPointLink<D3MemberWithLayout>[],
         originX = 0,
         originY = 0,
         parentDirection = 1, // 1 for right, -1 for left (inherited)
-        isMainTree = false
+        isMainTree = false,
+        ySign = 1, // -1 grows the tree upwards (ancestor charts), 1 downwards
+        rootKey?: string, // Item the left-out root of `nodes` is drawn as
+        baseLevel = 1 // Tree level of the root, for screen readers
+    ) => {
+        // Whether the branches drawn here are ancestors (and so can be collapsed); the descendants
+        // hanging below the focus person in the ancestor chart are not
+        const showsAncestors = mode === 'ancestors' && !(isMainTree && ySign === 1);
+        // Keys first, so each node can point at its relatives
+        const keys = new Map(nodes.map(d => [d, keyFor(d.data.id)]));
+        // Each generation left to right, for moving past the ends of a row
+        const generations = d3.group(nodes, n => n.depth);
+        generations.forEach(generation => generation.sort((a, b) => a.x - b.x));
+
+        nodes.forEach(d => {
+            const key = keys.get(d)!;
+            const x = originX + d.x;
+            const y = originY + ySign * d.y;
+            // Determine Direction for Spouse
+            // Main tree: assuming root is roughly at x=0
+            const direction = isMainTree ? (d.x < 0 ? -1 : 1) : parentDirection;
+            const siblings = d.data.siblings || [];
+            const siblingXs = siblings.map((_, i) => x + siblingOffset(d.data, i) * direction);
+            const spouses = (d.data.spouses || []).map((spouse, i) => ({ spouse, ...spousePlacement(spouse, i, direction) }));
+            const xs = [x, ...siblingXs, ...spouses.map(({ offsetX }) => x + offsetX)];
+            // Outer spouses' curves dip further below the node, 170px per ring
+            const curveDepth = Math.max(0, ...spouses.map(({ ring }) => ring - 1)) * 170;
+            const bounds: Bounds = [Math.min(...xs) - 70, y - 180, Math.max(...xs) + 70, y + 180 + curveDepth];
+            nodeItems.push({ key, bounds, d, x, y, direction, isMainTree, ySign, showsAncestors });
+
+            // Up is always towards parents and down towards children, whichever way the tree grows
+            const level = baseLevel + d.depth;
+            const parentKey = d.parent ? keys.get(d.parent) ?? rootKey : undefined;
+            const childKey = d.children?.length ? keys.get(d.children[0]) : undefined;
+            const [up, down] = showsAncestors ? [childKey, parentKey] : [parentKey, childKey];
+            const generation = generations.get(d.depth)!;
+            const index = generation.indexOf(d);
+            const row: NavEntry[] = [
+                { key, member: d.data, x, y, level, up, down },
+                // Brothers and sisters share the member's parents
+                ...siblings.map((sibling, i) => ({ key: `${key}/sibling/${sibling.id}`, member: sibling, x: siblingXs[i], y, level, up })),
+                ...spouses.map(({ spouse, offsetX, offsetY }) => ({
+                    key: `${key}/spouse/${spouse.id}`, member: spouse, partnerId: d.data.id, x: x + offsetX, y: y + offsetY, level,
+                    // In the descendant chart the member's children are drawn below the couple
+                    down: showsAncestors ? undefined : down
+                }))
+            ].sort((a, b) => a.x - b.x);
+            row.forEach((entry, i) => {
+                entry.left = row[i - 1]?.key ?? (index > 0 ? keys.get(generation[index - 1]) : undefined);
+                entry.right = row[i + 1]?.key ?? keys.get(generation[index + 1]);
+                navigation.set(entry.key, entry);
+            });
+
+            remember(d.data.id, x, y);
+            siblings.forEach((sibling, i) => remember(sibling.id, siblingXs[i], y));
+            spouses.forEach(({ spouse, side, offsetX, offsetY }) => {
+                remember(spouse.id, x + offsetX, y + offsetY);
+
+                // === SPOUSE'S SUB-TREE ===
+                const subRoot = d.data.spouseTreeLayouts?.[spouse.id];
+                if (expandedSpouseIds.has(spouse.id) && subRoot) {
+                    // The spouse itself is drawn with its partner, with its own controls, so only
+                    // the people above or below them come from the sub-tree.
+                    const spouseKey = `${key}/spouse/${spouse.id}`;
+                    const subKeys = collectTree(
+                        subRoot.descendants().filter(n => n.depth !== 0),
+                        subRoot.links(),
+                        x + offsetX,
+                        y + offsetY,
+                        side, // Grow away from the member, on the spouse's side
+                        false, // This is a spouse tree
+                        1,
+                        spouseKey,
+                        level
+                    );
+                    const subKey = subRoot.children?.length ? subKeys.get(subRoot.children[0]) : undefined;
+                    const spouseEntry = navigation.get(spouseKey)!;
+                    if (mode === 'ancestors') spouseEntry.up = subKey;
+                    else spouseEntry.down = subKey;
+                }
+            });
+        });
+
+        links.forEach(link => {
+            // Each person has one incoming link, so the target's key identifies it
+            const key = `link-${keys.get(link.target)}`;
+            const xs = [originX + link.source.x, originX + link.target.x];
+            const ys = [originY + ySign * link.source.y, originY + ySign * link.target.y];
+            // The curve's control points wander up to 30px from its ends
+            const bounds: Bounds = [Math.min(...xs) - 40, Math.min(...ys) - 40, Math.max(...xs) + 40, Math.max(...ys) + 40];
+            linkItems.push({ key, bounds, link, path: wavyPath(link, originX, originY, ySign) });
+        });
+        return keys;
+    };
+
+    // Kick off with the Main Tree
+    collectTree(mainRoot.descendants(), mainRoot.links(), 0, 0, 1, true, mode === 'ancestors' ? -1 : 1);
+
+    // Descendants of the focus person hang below them; the focus node itself is already drawn
+    if (descendantHierarchy) {
+        const descendantKeys = collectTree(descendantHierarchy.descendants().filter(n => n.depth !== 0), descendantHierarchy.links(), 0, 0, 1, true, 1, data.id);
+        navigation.get(data.id)!.down = descendantKeys.get(descendantHierarchy.children![0]);
+    }
+    if (!focusKey.current || !navigation.has(focusKey.current)) focusKey.current = data.id;
+    nodePositions.current = positions;
+    setOverview({
+        points: Array.from(positions.values()),
+        bounds: nodeItems.reduce<Bounds>(
+            ([x0, y0, x1, y1], { bounds }) => [Math.min(x0, bounds[0]), Math.min(y0, bounds[1]), Math.max(x1, bounds[2]), Math.max(y1, bounds[3])],
+            [Infinity, Infinity, -Infinity, -Infinity]
+        )
+    });
+    performance.measure("tree-layout", { start: layoutStarted, detail: { total: nodeItems.length } });
+
+    // --- NODE CONTENTS ---
+    // A node's contents are only rebuilt when what it shows has changed
+    const personSignature = (member: D3Member) => [
+        member.id, member.name, member.imageUrl, member.gender, member.birth, member.death, labelFor(member),
+        member.id === highlightedId, pathIds.has(member.id), issues?.[member.id], presence?.[member.id]
+    ];
+    const contentSignature = ({ key, d, direction, isMainTree, ySign, showsAncestors }: NodeItem, detailed: boolean) => JSON.stringify([
+        detailed, drawAll, mode, d.data.id === data.id, direction, isMainTree, ySign, showsAncestors, !!d.children?.length, d.data.hiddenAncestors,
+        key, navigation.get(key)?.level, d.data.spouses?.map(spouse => expandedSpouseIds.has(spouse.id)),
+        personSignature(d.data),
+        d.data.siblings?.map(sibling => [personSignature(sibling), sibling.siblingKind]),
+        d.data.spouses?.map(spouse => [personSignature(spouse), spouse.union, isPathLink(d.data.id, spouse.id)])
+    ]);
+
+    // Makes a drawn person a focusable item of the ARIA tree. Their hover controls also show on focus.
+    const makeTreeItem = (
+        element: d3.Selection<SVGElement, any, any, any>,
+        itemKey: string,
+        description: (string | undefined)[],
+        controls?: d3.Selection<SVGGElement, any, any, any>,
+        expanded?: boolean
     ) => {
+        element
+            .attr("data-nav-key", itemKey)
+            .attr("role", "treeitem")
+            .attr("aria-level", navigation.get(itemKey)?.level ?? 1)
+            .attr("aria-label", description.filter(Boolean).join(", "))
+            .attr("aria-expanded", expanded === undefined ? null : String(expanded))
+            .attr("tabindex", itemKey === focusKey.current ? 0 : -1);
+        if (controls) {
+            element.on("focus", () => controls.attr("opacity", 1))
+                   .on("blur", () => controls.attr("opacity", 0));
+        }
+    };
+
+    const drawNode = (nodeGroup: d3.Selection<SVGGElement, NodeItem, any, any>, { key, d, direction, isMainTree, ySign, showsAncestors }: NodeItem) => {
+        const uniqueId = `clip-${d.data.id}`;
+
+        // === MAIN MEMBER ===
+        const mainGroup = nodeGroup.append("g")
+            .style("cursor", "pointer")
+            .on("click", (e) => {
+                e.stopPropagation();
+                callbacks.current.onEdit(d.data);
+            });
+
+        nodeGroup.append("clipPath")
+            .attr("id", uniqueId)
+            .append("circle")
+            .attr("r", 40);
+
+        const isHighlighted = d.data.id === highlightedId || pathIds.has(d.data.id);
+        mainGroup.append("circle")
+            .attr("r", 42)
+            .attr("fill", COLORS.background)
+            .attr("stroke", isHighlighted ? COLORS.nodeBorderHover : COLORS.nodeBorder)
+            .attr("stroke-width", isHighlighted ? 5 : 2)
+            .attr("class", "node-circle");
+
+        const portrait = mainGroup.append("image")
+            .attr("width", 80)
+            .attr("height", 80)
+            .attr("x", -40)
+            .attr("y", -40)
+            .attr("clip-path", `url(#${uniqueId})`)
+            .style("transition", "filter 0.3s ease");
+
+        setPortrait(portrait, d.data.imageUrl, drawAll);
         
-        // Custom wavy link generator
-        const generateWavyPath = (d: d3.HierarchyPointLink<D3MemberWithLayout>) => {
-            let sx = originX + d.source.x;
-            let sy = originY + (isMainTree ? -d.source.y : d.source.y);
-            let tx = originX + d.target.x;
-            let ty = originY + (isMainTree ? -d.target.y : d.target.y);
-
-            // Add a bit of randomness to the control points
-            const seed = d.target.data.id + d.source.data.id;
-            const midY = (sy + ty) / 2;
-            const controlOffset = getRandomOffset(seed, 'curve') * 30; 
-
-            // IMPORTANT: Ensure path is drawn Left-to-Right to make text rendering consistent (always on top)
-            const isTargetLeft = tx < sx;
-
-            if (isTargetLeft) {
-                // Target is left of Source. Draw from Target -> Source
-                return `M ${tx} ${ty} 
-                        C ${tx} ${midY - controlOffset}, 
-                          ${sx} ${midY + controlOffset}, 
-                          ${sx} ${sy}`;
-            } else {
-                // Source is left of Target (or vertical). Draw from Source -> Target
-                return `M ${sx} ${sy} 
-                        C ${sx} ${midY + controlOffset}, 
-                          ${tx} ${midY - controlOffset}, 
-                          ${tx} ${ty}`;
-            }
-        };
+        mainGroup.append("text")
+            .attr("dy", 65)
+            .attr("text-anchor", "middle")
+            .text(d.data.name.toUpperCase())
+            .attr("fill", COLORS.text)
+            .attr("font-family", "Cinzel, serif")
+            .attr("font-size", "12px")
+            .attr("font-weight", "bold")
+            .attr("letter-spacing", "1px");
+
+        mainGroup.append("text")
+            .attr("dy", 80)
+            .attr("text-anchor", "middle")
+            .text(formatLifespan(d.data))
+            .attr("fill", COLORS.subText)
+            .attr("font-family", "Lato, sans-serif")
+            .attr("font-size", "10px");
+
+        drawIssueBadge(mainGroup, issues?.[d.data.id], 32 * direction, -32);
+        drawPresenceBadges(mainGroup, presence?.[d.data.id], -32 * direction, -32);
 
-        // 1. Draw Links
-        const linkSelection = linksGroup.append("g").selectAll(".link")
-            .data(links)
-            .enter()
-            .append("g");
-
-        linkSelection.append("path")
-            .attr("id", d => `link-${d.target.data.id}`)
-            .attr("d", d => generateWavyPath(d))
-            .attr("fill", "none")
-            .attr("stroke", COLORS.link)
-            .attr("stroke-width", 8) 
-            .attr("stroke-opacity", 0.5)
-            .attr("stroke-linecap", "round");
-
-        // Labels
-        linkSelection.append("text")
-            .attr("dy", -5) // Move text UP relative to the path (which is now consistently oriented)
-            .style("pointer-events", "none")
-            .append("textPath")
-            .attr("href", d => `#link-${d.target.data.id}`)
-            .attr("startOffset", "50%")
-            .style("text-anchor", "middle")
-            .text(d => d.target.data.relationship ? d.target.data.relationship.toUpperCase() : "")
-            .attr("fill", COLORS.subText) 
-            .style("font-family", "Cinzel, serif")
-            .style("font-size", "10px")
-            .style("letter-spacing", "3px")
-            .style("font-weight", "900");
-
-        // 2. Draw Nodes
-        const nodeSelection = nodesGroup.append("g").selectAll(".node")
-            .data(nodes)
-            .enter()
-            .append("g")
-            .attr("class", "node")
-            .attr("transform", d => `translate(${originX + d.x}, ${originY + (isMainTree ? -d.y : d.y)})`);
-
-        nodeSelection.each(function(d) {
-            const nodeGroup = d3.select(this);
-            const uniqueId = `clip-${d.data.id}`;
+        // Collapsed ancestors: a stub where they would be, which opens the branch again
+        if (d.data.hiddenAncestors) {
+            const stubY = ySign * 150;
+            const stub = nodeGroup.append("g")
+                .attr("class", "ancestor-stub")
+                .style("cursor", "pointer")
+                .on("click", (e) => {
+                    e.stopPropagation();
+                    toggleCollapsed(d.data.id);
+                });
+            stub.append("path")
+                .attr("d", `M 0 ${ySign < 0 ? -45 : 100} L 0 ${stubY - ySign * 12}`)
+                .attr("stroke", COLORS.link)
+                .attr("stroke-width", 4)
+                .attr("stroke-opacity", 0.5)
+                .attr("stroke-dasharray", "6 6")
+                .attr("stroke-linecap", "round");
+            stub.append("rect")
+                .attr("x", -62)
+                .attr("y", stubY - 12)
+                .attr("width", 124)
+                .attr("height", 24)
+                .attr("rx", 12)
+                .attr("fill", COLORS.background)
+                .attr("stroke", COLORS.nodeBorder);
+            stub.append("text")
+                .attr("y", stubY + 4)
+                .attr("text-anchor", "middle")
+                .text(`+${d.data.hiddenAncestors} ${d.data.hiddenAncestors === 1 ? "ANCESTOR" : "ANCESTORS"}`)
+                .attr("fill", COLORS.text)
+                .attr("font-family", "Cinzel, serif")
+                .attr("font-size", "10px")
+                .attr("font-weight", "bold")
+                .attr("letter-spacing", "1px");
+            stub.append("title").text("Show Ancestors");
+        }
+
+        // -- CONTROLS (Main Node) --
+        const controls = nodeGroup.append("g")
+            .attr("class", "controls")
+            .attr("opacity", 0)
+            .style("transition", "opacity 0.2s ease");
+        
+        // Determine Button Positions based on Tree Direction
+        // Main Tree: Ancestors UP (-55), Descendants DOWN (95 - below text)
+        // Spouse Tree: Ancestors DOWN (95 - below text), Descendants UP (-55)
+        // This prevents buttons from overlapping the text (at 65-80)
+        const ancestorY = isMainTree ? -55 : 95;
+        const descendantY = isMainTree ? 95 : -55;
+
+        // Add Ancestor
+        const ancestorBtn = controls.append("g")
+            .attr("transform", `translate(0, ${ancestorY})`)
+            .style("cursor", "pointer")
+            .on("click", (e) => {
+                e.stopPropagation();
+                // Open a collapsed branch so the new ancestor is visible
+                if (d.data.hiddenAncestors) toggleCollapsed(d.data.id);
+                callbacks.current.onAddParent(d.data.id);
+            });
+        ancestorBtn.append("circle").attr("r", 10).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
+        ancestorBtn.append("text").attr("dy", 3.5).attr("text-anchor", "middle").text("+").attr("font-weight", "bold");
+        ancestorBtn.append("title").text("Add Ancestor");
+
+        // Collapse Ancestors: fold this member's parents and everyone above them into a stub
+        if (showsAncestors && d.children?.length) {
+            const collapseBtn = controls.append("g")
+                .attr("transform", `translate(24, ${ancestorY})`)
+                .style("cursor", "pointer")
+                .on("click", (e) => {
+                    e.stopPropagation();
+                    toggleCollapsed(d.data.id);
+                });
+            collapseBtn.append("circle").attr("r", 10).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
+            collapseBtn.append("text").attr("dy", 3.5).attr("text-anchor", "middle").text("−").attr("font-weight", "bold");
+            collapseBtn.append("title").text("Collapse Ancestors");
+        }
+
+        // Add Descendant
+        const descendantBtn = controls.append("g")
+            .attr("transform", `translate(0, ${descendantY})`)
+            .style("cursor", "pointer")
+            .on("click", (e) => {
+                e.stopPropagation();
+                callbacks.current.onAddChild(d.data.id);
+            });
+        descendantBtn.append("circle").attr("r", 10).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
+        descendantBtn.append("text").attr("dy", 3.5).attr("text-anchor", "middle").text("+").attr("font-weight", "bold");
+        descendantBtn.append("title").text("Add Descendant");
+
+        // Switch Chart: show this member's descendants (or ancestors, in the descendant chart)
+        const targetMode: TreeViewMode = mode === 'ancestors' ? 'descendants' : 'ancestors';
+        const viewBtn = controls.append("g")
+            .attr("transform", `translate(${-55 * direction}, 0)`)
+            .style("cursor", "pointer")
+            .on("click", (e) => {
+                e.stopPropagation();
+                callbacks.current.onChangeView(d.data.id, targetMode);
+            });
+        viewBtn.append("circle").attr("r", 10).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
+        viewBtn.append("text").attr("dy", 3.5).attr("text-anchor", "middle").text(targetMode === 'descendants' ? "▾" : "▴").attr("font-size", "10px");
+        viewBtn.append("title").text(targetMode === 'descendants' ? "Show Descendants" : "Show Ancestors");
+
+        // Center Here: redraw the chart around this member (the stored tree is untouched)
+        if (d.data.id !== data.id) {
+            const focusBtn = controls.append("g")
+                .attr("transform", `translate(${-40 * direction}, -40)`)
+                .style("cursor", "pointer")
+                .on("click", (e) => {
+                    e.stopPropagation();
+                    callbacks.current.onFocus(d.data.id);
+                });
+            focusBtn.append("circle").attr("r", 10).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
+            focusBtn.append("text").attr("dy", 3.5).attr("text-anchor", "middle").text("◎").attr("font-size", "11px");
+            focusBtn.append("title").text("Center Tree Here");
+        }
+        
+        // Add Spouse (a member can have any number of partnerships)
+        const sideBtn = controls.append("g")
+            .attr("transform", `translate(${55 * direction}, 0)`)
+            .style("cursor", "pointer")
+            .on("click", (e) => {
+                e.stopPropagation();
+                callbacks.current.onAddSpouse(d.data.id);
+            });
+        sideBtn.append("circle").attr("r", 10).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
+        sideBtn.append("text").attr("dy", 3.5).attr("text-anchor", "middle").text("♥").attr("font-size", "10px").attr("fill", COLORS.accent);
+        sideBtn.append("title").text(d.data.spouses ? "Add Another Spouse" : "Add Spouse");
+
+        // Add Sibling (a brother or sister sharing this member's parents)
+        const siblingBtn = controls.append("g")
+            .attr("transform", `translate(${-40 * direction}, 40)`)
+            .style("cursor", "pointer")
+            .on("click", (e) => {
+                e.stopPropagation();
+                callbacks.current.onAddSibling(d.data.id);
+            });
+        siblingBtn.append("circle").attr("r", 10).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
+        siblingBtn.append("text").attr("dy", 3.5).attr("text-anchor", "middle").text("⇆").attr("font-size", "10px");
+        siblingBtn.append("title").text("Add Sibling");
+
+        mainGroup.on("mouseenter", () => controls.attr("opacity", 1))
+                 .on("mouseleave", () => controls.attr("opacity", 0));
+        makeTreeItem(mainGroup, key, [
+            d.data.name,
+            formatLifespan(d.data),
+            labelFor(d.data),
+            d.data.hiddenAncestors ? `${d.data.hiddenAncestors} ${d.data.hiddenAncestors === 1 ? "ancestor" : "ancestors"} collapsed` : undefined
+        ], controls, showsAncestors && (d.data.hiddenAncestors || d.children?.length) ? !d.data.hiddenAncestors : undefined);
+        controls.on("mouseenter", () => controls.attr("opacity", 1))
+                .on("mouseleave", () => controls.attr("opacity", 0));
+
+
+        // === SIBLING RENDERING ===
+        // A bar above the row joins the member to each brother and sister
+        if (d.data.siblings) {
+            const siblings = d.data.siblings;
+            const lastX = siblingOffset(d.data, siblings.length - 1) * direction;
+            const barY = -62;
+            const siblingPath = [
+                `M ${-30 * direction} -34 L ${-30 * direction} ${barY} L ${lastX} ${barY}`,
+                ...siblings.map((_, i) => `M ${siblingOffset(d.data, i) * direction} ${barY} L ${siblingOffset(d.data, i) * direction} -30`)
+            ].join(" ");
+            nodeGroup.append("path")
+                .attr("d", siblingPath)
+                .attr("fill", "none")
+                .attr("stroke", COLORS.link)
+                .attr("stroke-width", 3)
+                .attr("stroke-opacity", 0.5)
+                .attr("stroke-linecap", "round");
+
+            siblings.forEach((sibling, i) => {
+                const siblingX = siblingOffset(d.data, i) * direction;
+                const clipId = `clip-sibling-${d.data.id}-${sibling.id}`;
+
+                const siblingGroup = nodeGroup.append("g")
+                    .attr("transform", `translate(${siblingX}, 0)`)
+                    .style("cursor", "pointer")
+                    .on("click", (e) => {
+                        e.stopPropagation();
+                        callbacks.current.onEdit(sibling);
+                    });
+
+                nodeGroup.append("clipPath")
+                    .attr("id", clipId)
+                    .append("circle")
+                    .attr("r", 28);
+
+                const isSiblingHighlighted = sibling.id === highlightedId || pathIds.has(sibling.id);
+                siblingGroup.append("circle")
+                    .attr("r", 30)
+                    .attr("fill", COLORS.background)
+                    .attr("stroke", isSiblingHighlighted ? COLORS.nodeBorderHover : COLORS.nodeBorder)
+                    .attr("stroke-width", isSiblingHighlighted ? 5 : 2);
+
+                const siblingPortrait = siblingGroup.append("image")
+                    .attr("width", 56)
+                    .attr("height", 56)
+                    .attr("x", -28)
+                    .attr("y", -28)
+                    .attr("clip-path", `url(#${clipId})`);
+
+                setPortrait(siblingPortrait, sibling.imageUrl, drawAll);
+
+                siblingGroup.append("text")
+                    .attr("dy", 48)
+                    .attr("text-anchor", "middle")
+                    .text(sibling.name.toUpperCase())
+                    .attr("fill", COLORS.text)
+                    .attr("font-family", "Cinzel, serif")
+                    .attr("font-size", "10px")
+                    .attr("font-weight", "bold")
+                    .attr("letter-spacing", "1px");
+
+                siblingGroup.append("text")
+                    .attr("dy", 61)
+                    .attr("text-anchor", "middle")
+                    .text(formatLifespan(sibling))
+                    .attr("fill", COLORS.subText)
+                    .attr("font-family", "Lato, sans-serif")
+                    .attr("font-size", "9px");
+
+                siblingGroup.append("text")
+                    .attr("dy", 74)
+                    .attr("text-anchor", "middle")
+                    .text(SIBLING_LABELS[sibling.siblingKind || 'full'][sibling.gender || 'unknown'].toUpperCase())
+                    .attr("fill", COLORS.subText)
+                    .style("font-family", "Cinzel, serif")
+                    .style("font-size", "8px")
+                    .style("letter-spacing", "2px")
+                    .style("font-weight", "bold");
+
+                drawIssueBadge(siblingGroup, issues?.[sibling.id], -22, -22);
+                drawPresenceBadges(siblingGroup, presence?.[sibling.id], 22, -22);
+
+                // Center Here: opens the sibling's own family
+                const siblingControls = nodeGroup.append("g")
+                    .attr("transform", `translate(${siblingX}, 0)`)
+                    .attr("opacity", 0)
+                    .style("transition", "opacity 0.2s ease");
+                const sFocusBtn = siblingControls.append("g")
+                    .attr("transform", "translate(26, -26)")
+                    .style("cursor", "pointer")
+                    .on("click", (e) => {
+                        e.stopPropagation();
+                        callbacks.current.onFocus(sibling.id);
+                    });
+                sFocusBtn.append("circle").attr("r", 8).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
+                sFocusBtn.append("text").attr("dy", 3).attr("text-anchor", "middle").text("◎").attr("font-size", "9px");
+                sFocusBtn.append("title").text("Center Tree Here");
+
+                siblingGroup.on("mouseenter", () => siblingControls.attr("opacity", 1))
+                            .on("mouseleave", () => siblingControls.attr("opacity", 0));
+                makeTreeItem(siblingGroup, `${key}/sibling/${sibling.id}`, [
+                    sibling.name,
+                    formatLifespan(sibling),
+                    SIBLING_LABELS[sibling.siblingKind || 'full'][sibling.gender || 'unknown']
+                ], siblingControls);
+                siblingControls.on("mouseenter", () => siblingControls.attr("opacity", 1))
+                               .on("mouseleave", () => siblingControls.attr("opacity", 0));
+            });
+        }
+
+        // === SPOUSE RENDERING ===
+        (d.data.spouses || []).forEach((spouse, spouseIndex) => {
+            const spouseId = `clip-spouse-${spouse.id}`;
+            const { side, ring, offsetX: spouseOffset, offsetY: spouseOffsetY } = spousePlacement(spouse, spouseIndex, direction);
+
+            // Connection
+            const pathId = `link-spouse-${d.data.id}-${spouse.id}`;
             
-            // Determine Direction for Spouse
-            let direction = parentDirection;
-            if (isMainTree) {
-                // Assuming root is roughly at x=0
-                direction = (d.x < 0) ? -1 : 1; 
+            // Calculate dynamic path for spouse connection based on offset positions
+            const startX = side === -1 ? -50 : 50;
+            const endX = spouseOffset + (side === -1 ? 50 : -50);
+            
+            // Control point height randomization. Outer spouses curve deeper, passing below the inner ones.
+            const curveY = 30 + (ring - 1) * 170 + (getRandomOffset(spouse.id, 'sc') * 15);
+            const midX = (startX + endX)/2;
+
+            let pathD = "";
+            // side -1 means Main(Right) -> Spouse(Left). startX > endX.
+            // To keep text on top, we always want to draw Left -> Right.
+            // if side -1: Spouse(Left) is at endX. Main(Right) is at startX.
+            if (side === -1) {
+                // Draw Spouse(Left) -> Main(Right)
+                pathD = `M ${endX} ${spouseOffsetY} Q ${midX} ${curveY} ${startX} 0`;
+            } else {
+                // side 1: Main(Left) -> Spouse(Right).
+                // Draw Main(Left) -> Spouse(Right)
+                pathD = `M ${startX} 0 Q ${midX} ${curveY} ${endX} ${spouseOffsetY}`;
             }
             
-            // === MAIN MEMBER ===
-            const mainGroup = nodeGroup.append("g")
+            // Ended marriages get a fainter, sparser line
+            const isDivorced = !!spouse.union?.divorce;
+            const isOnPath = isPathLink(d.data.id, spouse.id);
+            nodeGroup.append("path")
+                .attr("id", pathId)
+                .attr("d", pathD)
+                .attr("fill", "none")
+                .attr("stroke", isOnPath ? COLORS.highlight : COLORS.link)
+                .attr("stroke-width", 8) 
+                .attr("stroke-dasharray", isDivorced ? "2,12" : "4,4")
+                .attr("stroke-opacity", isOnPath ? 0.9 : isDivorced ? 0.35 : 0.6)
+                .attr("stroke-linecap", "round");
+
+            nodeGroup.append("text")
+                .attr("dy", -5) // Move text UP
+                .style("pointer-events", "none")
+                .append("textPath")
+                .attr("href", `#${pathId}`)
+                .attr("startOffset", "50%")
+                .style("text-anchor", "middle")
+                .text(unionLabel(spouse, labelFor(spouse)))
+                .attr("fill", COLORS.subText)
+                .style("font-family", "Cinzel, serif")
+                .style("font-size", "9px")
+                .style("letter-spacing", "2px")
+                .style("font-weight", "bold");
+
+            // Spouse Group
+            const spouseGroup = nodeGroup.append("g")
+                .attr("transform", `translate(${spouseOffset}, ${spouseOffsetY})`)
                 .style("cursor", "pointer")
                 .on("click", (e) => {
                     e.stopPropagation();
-                    onEdit(d.data);
+                    // Handle toggle expansion
+                    toggleSpouse(spouse.id);
                 });
-
-            defs.append("clipPath")
-                .attr("id", uniqueId)
+            
+            nodeGroup.append("clipPath")
+                .attr("id", spouseId)
                 .append("circle")
                 .attr("r", 40);
 
-            mainGroup.append("circle")
+            const isSpouseHighlighted = spouse.id === highlightedId || pathIds.has(spouse.id);
+            spouseGroup.append("circle")
                 .attr("r", 42)
                 .attr("fill", COLORS.background)
-                .attr("stroke", COLORS.nodeBorder)
-                .attr("stroke-width", 2)
-                .attr("class", "node-circle");
+                .attr("stroke", isSpouseHighlighted ? COLORS.nodeBorderHover : COLORS.nodeBorder)
+                .attr("stroke-width", isSpouseHighlighted ? 5 : 2);
 
-            mainGroup.append("image")
-                .attr("xlink:href", d.data.imageUrl)
+            const spousePortrait = spouseGroup.append("image")
                 .attr("width", 80)
                 .attr("height", 80)
                 .attr("x", -40)
                 .attr("y", -40)
-                .attr("clip-path", `url(#${uniqueId})`)
+                .attr("clip-path", `url(#${spouseId})`)
                 .style("transition", "filter 0.3s ease");
-            
-            mainGroup.append("text")
+
+            setPortrait(spousePortrait, spouse.imageUrl, drawAll);
+
+            spouseGroup.append("text")
                 .attr("dy", 65)
                 .attr("text-anchor", "middle")
-                .text(d.data.name.toUpperCase())
+                .text(spouse.name.toUpperCase())
                 .attr("fill", COLORS.text)
                 .attr("font-family", "Cinzel, serif")
                 .attr("font-size", "12px")
                 .attr("font-weight", "bold")
                 .attr("letter-spacing", "1px");
 
-            mainGroup.append("text")
+            spouseGroup.append("text")
                 .attr("dy", 80)
                 .attr("text-anchor", "middle")
-                .text(d.data.year)
+                .text(formatLifespan(spouse))
                 .attr("fill", COLORS.subText)
                 .attr("font-family", "Lato, sans-serif")
                 .attr("font-size", "10px");
 
-            // -- CONTROLS (Main Node) --
-            const controls = nodeGroup.append("g")
-                .attr("class", "controls")
+            drawIssueBadge(spouseGroup, issues?.[spouse.id], -32, 32);
+            drawPresenceBadges(spouseGroup, presence?.[spouse.id], 32, 32);
+            
+            const spouseControls = nodeGroup.append("g")
+                .attr("transform", `translate(${spouseOffset}, ${spouseOffsetY})`)
                 .attr("opacity", 0)
                 .style("transition", "opacity 0.2s ease");
             
-            // Determine Button Positions based on Tree Direction
-            // Main Tree: Ancestors UP (-55), Descendants DOWN (95 - below text)
-            // Spouse Tree: Ancestors DOWN (95 - below text), Descendants UP (-55)
-            // This prevents buttons from overlapping the text (at 65-80)
-            const ancestorY = isMainTree ? -55 : 95;
-            const descendantY = isMainTree ? 95 : -55;
-
-            // Add Ancestor
-            const ancestorBtn = controls.append("g")
-                .attr("transform", `translate(0, ${ancestorY})`)
+            // Edit Button
+            const sEditBtn = spouseControls.append("g")
+                .attr("transform", "translate(35, -35)")
                 .style("cursor", "pointer")
                 .on("click", (e) => {
                     e.stopPropagation();
-                    onAddParent(d.data.id);
+                    callbacks.current.onEdit(spouse);
                 });
-            ancestorBtn.append("circle").attr("r", 10).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
-            ancestorBtn.append("text").attr("dy", 3.5).attr("text-anchor", "middle").text("+").attr("font-weight", "bold");
-            ancestorBtn.append("title").text("Add Ancestor");
+            sEditBtn.append("circle").attr("r", 8).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
+            sEditBtn.append("text").attr("dy", 3).attr("text-anchor", "middle").text("✎").attr("font-size", "10px");
+            sEditBtn.append("title").text("Edit Details");
 
-            // Add Descendant
-            const descendantBtn = controls.append("g")
-                .attr("transform", `translate(0, ${descendantY})`)
-                .style("cursor", "pointer")
-                .on("click", (e) => {
-                    e.stopPropagation();
-                    onAddChild(d.data.id);
-                });
-            descendantBtn.append("circle").attr("r", 10).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
-            descendantBtn.append("text").attr("dy", 3.5).attr("text-anchor", "middle").text("+").attr("font-weight", "bold");
-            descendantBtn.append("title").text("Add Descendant");
-            
-            // Add Spouse (if none)
-            if (!d.data.spouse) {
-                const btnX = 55 * direction;
-                const sideBtn = controls.append("g")
-                    .attr("transform", `translate(${btnX}, 0)`)
+            // Marriage Button: dates and places of this partnership
+            if (spouse.union) {
+                const unionId = spouse.union.id;
+                const sUnionBtn = spouseControls.append("g")
+                    .attr("transform", "translate(-35, -35)")
                     .style("cursor", "pointer")
                     .on("click", (e) => {
                         e.stopPropagation();
-                        onAddSpouse(d.data.id);
+                        callbacks.current.onEditUnion(unionId);
                     });
-                sideBtn.append("circle").attr("r", 10).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
-                sideBtn.append("text").attr("dy", 3.5).attr("text-anchor", "middle").text("♥").attr("font-size", "10px").attr("fill", COLORS.accent);
-                sideBtn.append("title").text("Add Spouse");
+                sUnionBtn.append("circle").attr("r", 8).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
+                sUnionBtn.append("text").attr("dy", 3).attr("text-anchor", "middle").text("⚭").attr("font-size", "10px").attr("fill", COLORS.accent);
+                sUnionBtn.append("title").text("Edit Marriage");
             }
 
-            mainGroup.on("mouseenter", () => controls.attr("opacity", 1))
-                     .on("mouseleave", () => controls.attr("opacity", 0));
-            controls.on("mouseenter", () => controls.attr("opacity", 1))
-                    .on("mouseleave", () => controls.attr("opacity", 0));
-
-
-            // === SPOUSE RENDERING ===
-            if (d.data.spouse) {
-                const spouse = d.data.spouse;
-                const spouseId = `clip-spouse-${spouse.id}`;
-                
-                // Add randomness to spouse position too
-                const spouseRandX = getRandomOffset(spouse.id, 'sx') * 10;
-                const spouseRandY = getRandomOffset(spouse.id, 'sy') * 10;
-                
-                const spouseOffset = (220 * direction) + spouseRandX;
-                const spouseOffsetY = spouseRandY;
-
-                // Connection
-                const pathId = `link-spouse-${d.data.id}`;
-                
-                // Calculate dynamic path for spouse connection based on offset positions
-                const startX = direction === -1 ? -50 : 50;
-                const endX = spouseOffset + (direction === -1 ? 50 : -50);
-                
-                // Control point height randomization
-                const curveY = 30 + (getRandomOffset(spouse.id, 'sc') * 15);
-                const midX = (startX + endX)/2;
-
-                let pathD = "";
-                // direction -1 means Main(Right) -> Spouse(Left). startX > endX.
-                // To keep text on top, we always want to draw Left -> Right.
-                // if direction -1: Spouse(Left) is at endX. Main(Right) is at startX.
-                if (direction === -1) {
-                    // Draw Spouse(Left) -> Main(Right)
-                    pathD = `M ${endX} ${spouseOffsetY} Q ${midX} ${curveY} ${startX} 0`;
-                } else {
-                    // direction 1: Main(Left) -> Spouse(Right).
-                    // Draw Main(Left) -> Spouse(Right)
-                    pathD = `M ${startX} 0 Q ${midX} ${curveY} ${endX} ${spouseOffsetY}`;
-                }
-                
-                nodeGroup.append("path")
-                    .attr("id", pathId)
-                    .attr("d", pathD)
-                    .attr("fill", "none")
-                    .attr("stroke", COLORS.link)
-                    .attr("stroke-width", 8) 
-                    .attr("stroke-dasharray", "4,4")
-                    .attr("stroke-opacity", 0.6)
-                    .attr("stroke-linecap", "round");
-
-                nodeGroup.append("text")
-                    .attr("dy", -5) // Move text UP
-                    .style("pointer-events", "none")
-                    .append("textPath")
-                    .attr("href", `#${pathId}`)
-                    .attr("startOffset", "50%")
-                    .style("text-anchor", "middle")
-                    .text(spouse.relationship ? spouse.relationship.toUpperCase() : "SPOUSE")
-                    .attr("fill", COLORS.subText)
-                    .style("font-family", "Cinzel, serif")
-                    .style("font-size", "9px")
-                    .style("letter-spacing", "2px")
-                    .style("font-weight", "bold");
-
-                // Spouse Group
-                const spouseGroup = nodeGroup.append("g")
-                    .attr("transform", `translate(${spouseOffset}, ${spouseOffsetY})`)
-                    .style("cursor", "pointer")
-                    .on("click", (e) => {
-                        e.stopPropagation();
-                        // Handle toggle expansion
-                        toggleSpouse(spouse.id);
-                    });
-                
-                defs.append("clipPath")
-                    .attr("id", spouseId)
-                    .append("circle")
-                    .attr("r", 40);
+            // Add Child of this partnership
+            const sChildBtn = spouseControls.append("g")
+                .attr("transform", "translate(35, 35)")
+                .style("cursor", "pointer")
+                .on("click", (e) => {
+                    e.stopPropagation();
+                    callbacks.current.onAddChild(d.data.id, spouse.id);
+                });
+            sChildBtn.append("circle").attr("r", 8).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
+            sChildBtn.append("text").attr("dy", 3).attr("text-anchor", "middle").text("+").attr("font-size", "10px").attr("font-weight", "bold");
+            sChildBtn.append("title").text("Add Child Together");
 
-                spouseGroup.append("circle")
-                    .attr("r", 42)
-                    .attr("fill", COLORS.background)
-                    .attr("stroke", COLORS.nodeBorder)
-                    .attr("stroke-width", 2);
-
-                spouseGroup.append("image")
-                    .attr("xlink:href", spouse.imageUrl)
-                    .attr("width", 80)
-                    .attr("height", 80)
-                    .attr("x", -40)
-                    .attr("y", -40)
-                    .attr("clip-path", `url(#${spouseId})`)
-                    .style("transition", "filter 0.3s ease");
-
-                spouseGroup.append("text")
-                    .attr("dy", 65)
-                    .attr("text-anchor", "middle")
-                    .text(spouse.name.toUpperCase())
-                    .attr("fill", COLORS.text)
-                    .attr("font-family", "Cinzel, serif")
-                    .attr("font-size", "12px")
-                    .attr("font-weight", "bold")
-                    .attr("letter-spacing", "1px");
+            // Spouse Interaction
+            spouseGroup.on("mouseenter", function() {
+                d3.select(this).select("circle").attr("stroke", COLORS.nodeBorderHover);
+                spouseControls.attr("opacity", 1);
+            }).on("mouseleave", function() {
+                d3.select(this).select("circle").attr("stroke", isSpouseHighlighted ? COLORS.nodeBorderHover : COLORS.nodeBorder);
+                spouseControls.attr("opacity", 0);
+            });
+            
+            spouseControls.on("mouseenter", () => spouseControls.attr("opacity", 1))
+                          .on("mouseleave", () => spouseControls.attr("opacity", 0));
+            // Spouses open and close their own family tree, when they have one
+            makeTreeItem(spouseGroup, `${key}/spouse/${spouse.id}`, [
+                spouse.name,
+                formatLifespan(spouse),
+                unionLabel(spouse, labelFor(spouse)).toLowerCase()
+            ], spouseControls, spouse.children?.length ? expandedSpouseIds.has(spouse.id) : undefined);
+        });
+    };
 
-                spouseGroup.append("text")
-                    .attr("dy", 80)
-                    .attr("text-anchor", "middle")
-                    .text(spouse.year)
-                    .attr("fill", COLORS.subText)
-                    .attr("font-family", "Lato, sans-serif")
-                    .attr("font-size", "10px");
-                
-                const spouseControls = nodeGroup.append("g")
-                    .attr("transform", `translate(${spouseOffset}, ${spouseOffsetY})`)
-                    .attr("opacity", 0)
-                    .style("transition", "opacity 0.2s ease");
-                
-                // Edit Button
-                const sEditBtn = spouseControls.append("g")
-                    .attr("transform", "translate(35, -35)")
-                    .style("cursor", "pointer")
-                    .on("click", (e) => {
-                        e.stopPropagation();
-                        onEdit(spouse);
-                    });
-                sEditBtn.append("circle").attr("r", 8).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
-                sEditBtn.append("text").attr("dy", 3).attr("text-anchor", "middle").text("✎").attr("font-size", "10px");
-                sEditBtn.append("title").text("Edit Details");
-
-                // Spouse Interaction
-                spouseGroup.on("mouseenter", function() {
-                    d3.select(this).select("circle").attr("stroke", COLORS.nodeBorderHover);
-                    spouseControls.attr("opacity", 1);
-                }).on("mouseleave", function() {
-                    d3.select(this).select("circle").attr("stroke", COLORS.nodeBorder);
-                    spouseControls.attr("opacity", 0);
+    // Low zoom: a dot for each person, joined to their spouses, without portraits, names or controls
+    const drawDots = (nodeGroup: d3.Selection<SVGGElement, NodeItem, any, any>, { key, d, direction }: NodeItem) => {
+        const dot = (member: D3Member, x: number, y: number, itemKey: string) => {
+            const isHighlighted = member.id === highlightedId || pathIds.has(member.id);
+            const circle = nodeGroup.append("circle")
+                .attr("cx", x)
+                .attr("cy", y)
+                .attr("r", 24)
+                .attr("fill", isHighlighted ? COLORS.nodeBorderHover : COLORS.nodeBorder)
+                .attr("stroke", COLORS.background)
+                .attr("stroke-width", 4)
+                .style("cursor", "pointer")
+                .on("click", (e) => {
+                    e.stopPropagation();
+                    callbacks.current.onEdit(member);
                 });
-                
-                spouseControls.on("mouseenter", () => spouseControls.attr("opacity", 1))
-                              .on("mouseleave", () => spouseControls.attr("opacity", 0));
-
-
-                // === RENDER SPOUSE'S SUB-TREE ===
-                if (expandedSpouseIds.has(spouse.id) && d.data.spouseTreeLayout) {
-                    const subRoot = d.data.spouseTreeLayout;
-                    
-                    const spouseVisualX = originX + d.x + spouseOffset;
-                    const spouseVisualY = originY + (isMainTree ? -d.y : d.y) + spouseOffsetY;
-                    
-                    // Filter out the root node (the spouse itself) from the recursive render.
-                    // The spouse is already rendered manually above with specific controls.
-                    // This prevents double-rendering and removes unwanted "Add Ancestor/Descendant/Spouse" buttons on the spouse node.
-                    const subTreeNodes = subRoot.descendants().filter(n => n.depth !== 0);
-
-                    renderTreeRecursive(
-                        subTreeNodes, 
-                        subRoot.links(), 
-                        spouseVisualX, 
-                        spouseVisualY,
-                        direction, // Inherit direction (left/right of tree)
-                        false // This is a spouse tree
-                    );
+            circle.append("title").text(member.name);
+            makeTreeItem(circle, itemKey, [member.name, formatLifespan(member), labelFor(member)]);
+        };
+        (d.data.spouses || []).forEach((spouse, spouseIndex) => {
+            const { offsetX, offsetY } = spousePlacement(spouse, spouseIndex, direction);
+            nodeGroup.append("line")
+                .attr("x2", offsetX)
+                .attr("y2", offsetY)
+                .attr("stroke", COLORS.link)
+                .attr("stroke-width", 8)
+                .attr("stroke-opacity", 0.5);
+            dot(spouse, offsetX, offsetY, `${key}/spouse/${spouse.id}`);
+        });
+        d.data.siblings?.forEach((sibling, i) => dot(sibling, siblingOffset(d.data, i) * direction, 0, `${key}/sibling/${sibling.id}`));
+        dot(d.data, 0, 0, key);
+    };
+
+    // --- DRAW: the nodes and links in view, keyed so moved nodes glide, new ones fade in and removed
+    // ones fade out. Zooming and panning redraw without animation to add and drop nodes at the edges.
+    const draw = (animate: boolean) => {
+        const started = performance.now();
+        const zoomTransform = d3.zoomTransform(svg.node()!);
+        const detailed = drawAll || zoomTransform.k >= DETAIL_SCALE;
+        const [left, top] = zoomTransform.invert([-CULL_MARGIN, -CULL_MARGIN]);
+        const [right, bottom] = zoomTransform.invert([width + CULL_MARGIN, height + CULL_MARGIN]);
+        const inView = ([x0, y0, x1, y1]: Bounds) => drawAll || (x1 >= left && x0 <= right && y1 >= top && y0 <= bottom);
+        // A focused person whose node is rebuilt gets focus back afterwards
+        const focused = document.activeElement;
+        if (!pendingFocus.current && focused && svg.node()!.contains(focused)) {
+            pendingFocus.current = focused.getAttribute("data-nav-key");
+        }
+
+        // --- LINKS: keyed by the person they lead to ---
+        linksGroup.selectAll<SVGGElement, LinkItem>("g.link")
+            .data(linkItems.filter(item => inView(item.bounds)), d => d.key)
+            .join(
+                enter => {
+                    const linkGroup = enter.append("g").attr("class", "link").attr("opacity", animate ? 0 : 1);
+                    linkGroup.append("path")
+                        .attr("d", d => d.path)
+                        .attr("fill", "none")
+                        .attr("stroke-width", 8)
+                        .attr("stroke-linecap", "round");
+                    // Labels
+                    linkGroup.append("text")
+                        .attr("dy", -5) // Move text UP relative to the path (which is consistently oriented)
+                        .style("pointer-events", "none")
+                        .append("textPath")
+                        .attr("startOffset", "50%")
+                        .style("text-anchor", "middle")
+                        .attr("fill", COLORS.subText)
+                        .style("font-family", "Cinzel, serif")
+                        .style("font-size", "10px")
+                        .style("letter-spacing", "3px")
+                        .style("font-weight", "900");
+                    return linkGroup;
+                },
+                // Without animation (zooming and panning) links already on screen are left alone
+                update => animate ? update.call(u => u.select("path").transition(transition).attr("d", d => d.path)) : update,
+                // Renamed so a redraw during the fade does not pick the leaving link up again
+                exit => animate ? exit.attr("class", "link-exit").call(e => e.transition(transition).attr("opacity", 0).remove()) : exit.remove()
+            )
+            .order()
+            .call(merged => {
+                if (animate) merged.transition(transition).attr("opacity", 1);
+                merged.select("path")
+                    .attr("id", d => d.key)
+                    .attr("stroke", d => isPathLink(d.link.source.data.id, d.link.target.data.id) ? COLORS.highlight : COLORS.link)
+                    .attr("stroke-opacity", d => isPathLink(d.link.source.data.id, d.link.target.data.id) ? 0.9 : 0.5);
+                merged.select("textPath")
+                    .attr("href", d => `#${d.key}`)
+                    .text(d => detailed ? (labelFor(d.link.target.data) || "").toUpperCase() : "");
+            });
+
+        const nodeSelection = nodesGroup.selectAll<SVGGElement, NodeItem>("g.node")
+            .data(nodeItems.filter(item => inView(item.bounds)), d => d.key)
+            .join(
+                enter => enter.append("g")
+                    .attr("class", "node")
+                    .attr("opacity", animate ? 0 : 1)
+                    .attr("transform", d => `translate(${d.x}, ${d.y})`),
+                update => update,
+                exit => animate ? exit.attr("class", "node-exit").call(e => e.transition(transition).attr("opacity", 0).remove()) : exit.remove()
+            )
+            .order()
+            .each(function(item) {
+                const signature = contentSignature(item, detailed);
+                if (drawnContent.get(this) === signature) return;
+                drawnContent.set(this, signature);
+                const nodeGroup = d3.select<SVGGElement, NodeItem>(this);
+                nodeGroup.selectAll("*").remove();
+                if (detailed) {
+                    drawNode(nodeGroup, item);
+                } else {
+                    drawDots(nodeGroup, item);
                 }
-            }
+            });
+        if (animate) {
+            nodeSelection.transition(transition)
+                .attr("opacity", 1)
+                .attr("transform", d => `translate(${d.x}, ${d.y})`);
+        }
+
+        // Roving tabindex: Tab reaches only the focused person, or the first one drawn
+        const treeItems = nodeSelection.selectAll<SVGElement, unknown>("[data-nav-key]");
+        treeItems.attr("tabindex", function() { return this.getAttribute("data-nav-key") === focusKey.current ? 0 : -1; });
+        if (treeItems.filter('[tabindex="0"]').empty()) treeItems.filter((_, i) => i === 0).attr("tabindex", 0);
+        if (pendingFocus.current) {
+            const target = nodeSelection.select<SVGElement>(`[data-nav-key="${CSS.escape(pendingFocus.current)}"]`).node();
+            if (target && target !== document.activeElement) target.focus({ preventScroll: true });
+            pendingFocus.current = null;
+        }
+
+        performance.measure("tree-draw", {
+            start: started,
+            detail: { drawn: nodeSelection.size(), total: nodeItems.length, detailed, animate }
         });
     };
+    drawVisible.current = draw;
+    draw(!drawAll);
+
+    // --- KEYBOARD: arrows move between people, along the lines of the tree ---
+    // Pans the person into view if needed and focuses them once drawn
+    const focusItem = (itemKey: string | undefined) => {
+        const entry = itemKey ? navigation.get(itemKey) : undefined;
+        if (!entry) return;
+        focusKey.current = entry.key;
+        pendingFocus.current = entry.key;
+        const [screenX, screenY] = d3.zoomTransform(svg.node()!).apply([entry.x, entry.y]);
+        if (screenX < 120 || screenX > width - 120 || screenY < 120 || screenY > height - 120) {
+            svg.interrupt().call(zoom.translateTo, entry.x, entry.y);
+        }
+        draw(false);
+    };
+
+    svg.on("focusin", (e: FocusEvent) => {
+        const itemKey = (e.target as Element).getAttribute?.("data-nav-key");
+        if (itemKey) focusKey.current = itemKey;
+    });
+    svg.on("keydown", (e: KeyboardEvent) => {
+        const itemKey = (e.target as Element).getAttribute?.("data-nav-key");
+        const entry = itemKey ? navigation.get(itemKey) : undefined;
+        if (!entry || e.ctrlKey || e.metaKey || e.altKey) return;
+        const { member, partnerId } = entry;
+        const isNodeMember = !partnerId && !itemKey!.includes("/sibling/");
+        const handled = () => {
+            e.preventDefault();
+            e.stopPropagation();
+        };
+        switch (e.key) {
+            case "ArrowUp": handled(); focusItem(entry.up); break;
+            case "ArrowDown": handled(); focusItem(entry.down); break;
+            case "ArrowLeft": handled(); focusItem(entry.left); break;
+            case "ArrowRight": handled(); focusItem(entry.right); break;
+            case "Home": handled(); focusItem(data.id); break;
+            case "Enter": handled(); callbacks.current.onEdit(member); break;
+            case " ":
+                // Opens or closes a spouse's family, or a collapsible ancestor branch
+                handled();
+                if (partnerId) toggleSpouse(member.id);
+                else if (isNodeMember && (e.target as Element).hasAttribute("aria-expanded")) toggleCollapsed(member.id);
+                break;
+            case "p": case "P": handled(); callbacks.current.onAddParent(member.id); break;
+            case "s": case "S": handled(); callbacks.current.onAddSpouse(member.id); break;
+            case "c": case "C":
+                handled();
+                if (partnerId) callbacks.current.onAddChild(partnerId, member.id);
+                else callbacks.current.onAddChild(member.id);
+                break;
+        }
+    });
+
+    // Pan to a search hit once it has been drawn, keeping at least the default zoom level
+    if (pendingCenterId.current) {
+        const position = nodePositions.current.get(pendingCenterId.current);
+        pendingCenterId.current = null;
+        if (position) {
+            const k = Math.max(currentZoomState.current?.k ?? 1, 1);
+            const centered = d3.zoomIdentity
+                .translate(width / 2 - k * position[0], height / 2 - k * position[1])
+                .scale(k);
+            svg.transition().duration(750).ease(d3.easeCubicInOut).call(zoom.transform, centered);
+        }
+    }
 
-    // Kick off rendering with Main Tree
-    renderTreeRecursive(rootHierarchy.descendants(), rootHierarchy.links(), 0, 0, 1, true);
+  }, [data, mode, width, height, expandedSpouseIds, collapsedIds, highlightedId, labels, highlightPath, issues, presence, drawAll]);
 
-  }, [data, width, height, onAddParent, onAddChild, onAddSpouse, onEdit, expandedSpouseIds]);
+  // Reports where the chart is, once the first zoom has been applied
+  useEffect(() => {
+    if (viewTransform === d3.zoomIdentity) return;
+    callbacks.current.onViewChange?.({
+      transform: { x: viewTransform.x, y: viewTransform.y, k: viewTransform.k },
+      expandedSpouseIds: [...expandedSpouseIds],
+      collapsedIds: [...collapsedIds]
+    });
+  }, [viewTransform, expandedSpouseIds, collapsedIds]);
+
+  // Drop a redraw still waiting for the next frame when the chart goes away
+  useEffect(() => () => {
+    if (pendingFrame.current !== null) cancelAnimationFrame(pendingFrame.current);
+  }, []);
+
+  // --- Navigation controls: drive the same zoom behaviour as scrolling and dragging ---
+  const zoomTo = (transform: d3.ZoomTransform) => {
+    if (!svgRef.current || !zoomRef.current) return;
+    d3.select(svgRef.current).transition().duration(500).ease(d3.easeCubicInOut).call(zoomRef.current.transform, transform);
+  };
+
+  // scaleBy keeps within the zoom's scale extent
+  const zoomBy = (factor: number) => {
+    if (!svgRef.current || !zoomRef.current) return;
+    d3.select(svgRef.current).transition().duration(300).call(zoomRef.current.scaleBy, factor);
+  };
+
+  const fitToScreen = () => {
+    if (!overview) return;
+    const [x0, y0, x1, y1] = overview.bounds;
+    const k = Math.max(ZOOM_EXTENT[0], Math.min(ZOOM_EXTENT[1], width / (x1 - x0), height / (y1 - y0)));
+    zoomTo(d3.zoomIdentity.translate(width / 2 - k * (x0 + x1) / 2, height / 2 - k * (y0 + y1) / 2).scale(k));
+  };
+
+  // Follows the minimap pointer directly, without easing
+  const panTo = (x: number, y: number) => {
+    if (!svgRef.current || !zoomRef.current) return;
+    d3.select(svgRef.current).interrupt().call(zoomRef.current.translateTo, x, y);
+  };
+
+  const [viewLeft, viewTop] = viewTransform.invert([0, 0]);
+  const [viewRight, viewBottom] = viewTransform.invert([width, height]);
 
   return (
     <div ref={wrapperRef} className="w-full h-full cursor-grab active:cursor-grabbing overflow-hidden relative bg-legacy-bg">
-        <svg ref={svgRef} width={width} height={height} className="block" />
+        <svg
+            ref={svgRef}
+            width={width}
+            height={height}
+            className="block"
+            role="tree"
+            aria-label={`Family tree of ${data.name}`}
+            aria-describedby="tree-keyboard-help"
+        >
+            <desc id="tree-keyboard-help">
+                Use the arrow keys to move between people: up to parents, down to children, left and right along a generation.
+                Enter edits a person, Space opens or closes a spouse's family, P, S and C add a parent, spouse or child, and Home returns to {data.name}.
+            </desc>
+        </svg>
         <div className="absolute inset-0 pointer-events-none" 
              style={{ background: 'radial-gradient(circle at center, transparent 0%, rgba(242, 240, 229, 0.4) 100%)'}}>
         </div>
+        <TreeSearch data={data} onSelect={handleSearchSelect} />
+        {mode === 'ancestors' && (
+            <BranchControls
+                collapsedCount={collapsedIds.size}
+                onExpandAll={() => setCollapsedIds(new Set())}
+                onCollapseTo={collapseToGeneration}
+            />
+        )}
+        <div className="absolute bottom-4 md:bottom-12 left-1/2 -translate-x-1/2 z-40 flex items-end gap-2 cursor-auto">
+            <ZoomControls
+                scale={viewTransform.k}
+                minScale={ZOOM_EXTENT[0]}
+                maxScale={ZOOM_EXTENT[1]}
+                onZoomIn={() => zoomBy(ZOOM_STEP)}
+                onZoomOut={() => zoomBy(1 / ZOOM_STEP)}
+                onFit={fitToScreen}
+                onReset={() => zoomTo(homeTransform.current)}
+            />
+            {overview && (
+                <Minimap
+                    points={overview.points}
+                    bounds={overview.bounds}
+                    viewport={[viewLeft, viewTop, viewRight, viewBottom]}
+                    onPan={panTo}
+                />
+            )}
+        </div>
     </div>
   );
 };
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { FaCrop, FaDownload, FaFileAlt, FaPlus, FaTrash, FaUserCircle } from 'react-icons/fa';
+import { MediaItem, MediaKind } from '../types.ts';
+import { formatDate, parseDate } from '../utils/dates.ts';
+import { createId } from '../utils/graph.ts';
+import { blobToDataUrl } from '../services/files.ts';
+import { INPUT_CLASS } from './styles.ts';
+
+interface MediaGalleryProps {
+  media: MediaItem[];
+  // The photo the current portrait was cropped from
+  portraitMediaId?: string;
+  onChange: (media: MediaItem[]) => void;
+  // Makes a photo the portrait, using its saved crop
+  onUseAsPortrait: (item: MediaItem) => void;
+  // Opens the cropper on a photo
+  onCrop: (item: MediaItem) => void;
+}
+
+// Files are kept inside the tree, so very large ones would make every save slow
+const MAX_FILE_BYTES = 15 * 1024 * 1024;
+
+const KIND_LABELS: Record<MediaKind, string> = {
+  photo: 'Photo',
+  document: 'Document',
+  audio: 'Audio'
+};
+
+// Pictures count as photos until marked as a scanned document
+const kindForFile = (file: File): MediaKind =>
+  file.type.startsWith('audio/') ? 'audio' : file.type.startsWith('image/') ? 'photo' : 'document';
+
+// Reads uploaded files into media items, skipping any that are too large
+export const readMediaFiles = async (files: File[]): Promise<MediaItem[]> => {
+  const tooLarge = files.filter(file => file.size > MAX_FILE_BYTES);
+  if (tooLarge.length > 0) {
+    alert(`${tooLarge.map(file => file.name).join(', ')} ${tooLarge.length === 1 ? 'is' : 'are'} larger than 15 MB and ${tooLarge.length === 1 ? 'was' : 'were'} not added.`);
+  }
+  return Promise.all(files.filter(file => file.size <= MAX_FILE_BYTES).map(async file => ({
+    id: createId('media'),
+    kind: kindForFile(file),
+    src: await blobToDataUrl(file),
+    mimeType: file.type || 'application/octet-stream',
+    fileName: file.name
+  })));
+};
+
+interface MediaCardProps {
+  item: MediaItem;
+  isPortrait: boolean;
+  onChange: (updates: Partial<MediaItem>) => void;
+  onRemove: () => void;
+  onUseAsPortrait: () => void;
+  onCrop: () => void;
+}
+
+const iconButtonClass = "p-2 text-legacy-primary hover:text-legacy-accent transition-colors";
+
+const MediaCard: React.FC<MediaCardProps> = ({ item, isPortrait, onChange, onRemove, onUseAsPortrait, onCrop }) => {
+  // The date is only stored once it can be read, like the birth and death dates
+  const [dateText, setDateText] = useState(formatDate(item.date));
+  const isInvalidDate = parseDate(dateText) === null;
+  const isImage = item.mimeType.startsWith('image/');
+
+  const handleDateChange = (value: string) => {
+    setDateText(value);
+    const date = parseDate(value);
+    if (date !== null) onChange({ date });
+  };
+
+  return (
+    <li className={`border rounded p-3 space-y-2 ${isPortrait ? 'border-legacy-accent' : 'border-gray-200'}`}>
+      <div className="flex gap-3">
+        {/* Preview */}
+        <div className="w-20 h-20 shrink-0 rounded overflow-hidden bg-gray-100 flex items-center justify-center">
+          {isImage ? (
+            <img src={item.portrait || item.src} alt={item.caption || item.fileName || KIND_LABELS[item.kind]} className="w-full h-full object-cover" />
+          ) : (
+            <FaFileAlt size={28} color="#5C6B66" />
+          )}
+        </div>
+        <div className="flex-1 min-w-0 space-y-2">
+          <input
+            type="text"
+            value={item.caption || ''}
+            onChange={(e) => onChange({ caption: e.target.value || undefined })}
+            className={`${INPUT_CLASS} !py-1 text-sm`}
+            placeholder="Caption"
+            aria-label="Caption"
+          />
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={dateText}
+              onChange={(e) => handleDateChange(e.target.value)}
+              className={`${INPUT_CLASS} !py-1 !px-2 text-sm ${isInvalidDate ? 'ring-2 ring-red-400' : ''}`}
+              placeholder="Date"
+              aria-label="Date"
+            />
+            <select
+              value={item.kind}
+              onChange={(e) => onChange({ kind: e.target.value as MediaKind })}
+              className={`${INPUT_CLASS} !py-1 !px-2 text-sm`}
+              aria-label="Kind"
+            >
+              {/* Only pictures can be photos */}
+              {(Object.keys(KIND_LABELS) as MediaKind[])
+                .filter(kind => kind !== 'photo' || isImage)
+                .map(kind => <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>)}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {item.kind === 'audio' && <audio controls src={item.src} className="w-full h-8" />}
+
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-legacy-mute uppercase tracking-widest truncate">
+          {isPortrait ? 'Portrait' : item.fileName}
+        </span>
+        <div className="flex items-center">
+          {item.kind === 'photo' && (
+            <>
+              <button type="button" className={iconButtonClass} onClick={onUseAsPortrait} disabled={isPortrait} title="Use as Portrait">
+                <FaUserCircle size={14} />
+              </button>
+              <button type="button" className={iconButtonClass} onClick={onCrop} title="Crop Portrait">
+                <FaCrop size={14} />
+              </button>
+            </>
+          )}
+          <a href={item.src} download={item.fileName || `${item.kind}`} className={iconButtonClass} title="Download">
+            <FaDownload size={14} />
+          </a>
+          <button type="button" className="p-2 text-red-500 hover:text-red-700 transition-colors" onClick={onRemove} title="Remove">
+            <FaTrash size={14} />
+          </button>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+// Photos, scanned documents and recordings kept with a person, with captions and dates
+const MediaGallery: React.FC<MediaGalleryProps> = ({ media, portraitMediaId, onChange, onUseAsPortrait, onCrop }) => {
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []);
+    // Reset value so the same file can be selected again if needed
+    e.target.value = '';
+    try {
+      const added = await readMediaFiles(files);
+      if (added.length > 0) onChange([...media, ...added]);
+    } catch (err) {
+      console.error(err);
+      alert("Could not read the selected files.");
+    }
+  };
+
+  const updateItem = (id: string, updates: Partial<MediaItem>) =>
+    onChange(media.map(item => (item.id === id ? { ...item, ...updates } : item)));
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center justify-center gap-2 px-4 py-3 border-2 border-dashed border-gray-300 rounded text-legacy-mute hover:border-legacy-accent hover:text-legacy-primary transition-colors cursor-pointer font-serif font-bold text-xs tracking-widest uppercase focus-within:ring-2 focus-within:ring-legacy-accent">
+        <FaPlus size={12} /> Add Photos, Documents or Audio
+        <input type="file" multiple accept="image/*,application/pdf,audio/*" onChange={handleFiles} className="sr-only" />
+      </label>
+
+      {media.length === 0 ? (
+        <p className="text-center text-sm text-legacy-mute font-serif italic">No media yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {media.map(item => (
+            <MediaCard
+              key={item.id}
+              item={item}
+              isPortrait={item.id === portraitMediaId}
+              onChange={(updates) => updateItem(item.id, updates)}
+              onRemove={() => onChange(media.filter(other => other.id !== item.id))}
+              onUseAsPortrait={() => onUseAsPortrait(item)}
+              onCrop={() => onCrop(item)}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MediaGallery;
@@ -0,0 +1,250 @@
+import React, { useRef, useState } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import { FamilyGraph, LifeEvent, Person } from '../types.ts';
+import { formatDate, formatLifespan } from '../utils/dates.ts';
+import { getChildIds, getParentIds, getPartnerIds } from '../utils/graph.ts';
+import { DuplicateCandidate, MERGE_FIELDS, MergeChoice, MergeField } from '../utils/duplicates.ts';
+import { useFocusTrap } from '../hooks/useFocusTrap.ts';
+
+interface MergeReviewDialogProps {
+  graph: FamilyGraph;
+  candidates: DuplicateCandidate[];
+  onMerge: (candidate: DuplicateCandidate, choices: Partial<Record<MergeField, MergeChoice>>) => void;
+  // Drops a pair from the list: they are different people
+  onDismiss: (candidate: DuplicateCandidate) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  name: 'Name',
+  imageUrl: 'Portrait',
+  gender: 'Gender',
+  relationship: 'Relationship',
+  birth: 'Birth',
+  death: 'Death',
+  notes: 'Notes'
+};
+
+const formatEvent = (event?: LifeEvent) => [formatDate(event?.date), event?.place].filter(Boolean).join(', ');
+
+// What a field shows in the comparison; empty when the record does not have it
+const fieldText = (person: Person, field: MergeField): string => {
+  switch (field) {
+    case 'birth':
+    case 'death':
+      return formatEvent(person[field]);
+    case 'gender':
+      return person.gender && person.gender !== 'unknown' ? person.gender : '';
+    case 'imageUrl':
+      return person.imageUrl;
+    default:
+      return person[field] || '';
+  }
+};
+
+const LABEL_CLASS = "font-serif text-[10px] font-bold text-legacy-mute tracking-widest uppercase";
+
+interface RecordColumnProps {
+  graph: FamilyGraph;
+  person: Person;
+}
+
+// Who each record is connected to, since that moves over to the merged person too
+const Relatives: React.FC<RecordColumnProps> = ({ graph, person }) => {
+  const names = (ids: string[]) => ids.map(id => graph.persons[id].name).join(', ') || '—';
+  const childCount = getChildIds(graph, person.id).length;
+  return (
+    <dl className="text-xs text-legacy-dark space-y-1">
+      <div><dt className={LABEL_CLASS}>Parents</dt><dd>{names(getParentIds(graph, person.id))}</dd></div>
+      <div><dt className={LABEL_CLASS}>Spouses</dt><dd>{names(getPartnerIds(graph, person.id))}</dd></div>
+      <div><dt className={LABEL_CLASS}>Children</dt><dd>{childCount || '—'}</dd></div>
+      <div><dt className={LABEL_CLASS}>Media</dt><dd>{person.media?.length || '—'}</dd></div>
+    </dl>
+  );
+};
+
+interface ComparisonProps {
+  graph: FamilyGraph;
+  candidate: DuplicateCandidate;
+  onMerge: (choices: Partial<Record<MergeField, MergeChoice>>) => void;
+  onDismiss: () => void;
+}
+
+// The two records side by side, with a choice wherever they disagree
+const Comparison: React.FC<ComparisonProps> = ({ graph, candidate, onMerge, onDismiss }) => {
+  const keep = graph.persons[candidate.keepId];
+  const merge = graph.persons[candidate.mergeId];
+  // Fields only one record has are taken from it; a real photo is preferred over the placeholder
+  const [choices, setChoices] = useState<Partial<Record<MergeField, MergeChoice>>>(() =>
+    !keep.portraitMediaId && merge.portraitMediaId ? { imageUrl: 'merge' } : {}
+  );
+
+  const renderValue = (person: Person, field: MergeField) => {
+    const text = fieldText(person, field);
+    if (!text) return <span className="text-legacy-mute italic">—</span>;
+    if (field === 'imageUrl') return <img src={text} alt={person.name} className="w-12 h-12 rounded-full object-cover" />;
+    return <span className={field === 'notes' ? 'line-clamp-3' : field === 'gender' ? 'capitalize' : ''}>{text}</span>;
+  };
+
+  return (
+    <div className="space-y-4">
+      <table className="w-full text-sm text-legacy-dark">
+        <thead>
+          <tr>
+            <th className="w-24"></th>
+            <th className={`${LABEL_CLASS} text-left pb-2`}>Keep</th>
+            <th className={`${LABEL_CLASS} text-left pb-2`}>Merge In</th>
+          </tr>
+        </thead>
+        <tbody>
+          {MERGE_FIELDS.map(field => {
+            const differs = fieldText(keep, field) !== fieldText(merge, field) && !!fieldText(keep, field) && !!fieldText(merge, field);
+            return (
+              <tr key={field} className="border-t border-gray-100 align-top">
+                <th scope="row" className={`${LABEL_CLASS} text-left py-2`}>{FIELD_LABELS[field]}</th>
+                {(['keep', 'merge'] as MergeChoice[]).map(side => (
+                  <td key={side} className="py-2 pr-2">
+                    <label className={`flex items-start gap-2 ${differs ? 'cursor-pointer' : ''}`}>
+                      {differs && (
+                        <input
+                          type="radio"
+                          name={`merge-${field}`}
+                          checked={(choices[field] || 'keep') === side}
+                          onChange={() => setChoices({ ...choices, [field]: side })}
+                          className="mt-1 accent-legacy-primary"
+                        />
+                      )}
+                      {renderValue(side === 'keep' ? keep : merge, field)}
+                    </label>
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+          <tr className="border-t border-gray-100 align-top">
+            <th scope="row" className={`${LABEL_CLASS} text-left py-2`}>Relatives</th>
+            <td className="py-2 pr-2"><Relatives graph={graph} person={keep} /></td>
+            <td className="py-2 pr-2"><Relatives graph={graph} person={merge} /></td>
+          </tr>
+        </tbody>
+      </table>
+
+      <p className="text-xs text-legacy-mute">
+        Parents, spouses, children and media of both records are kept on the merged person.
+      </p>
+
+      <div className="flex gap-4 pt-4 border-t border-gray-100">
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="flex-1 px-4 py-3 border border-gray-300 rounded text-legacy-mute hover:bg-gray-50 transition-colors font-serif font-bold text-sm tracking-wide"
+        >
+          NOT THE SAME
+        </button>
+        <button
+          type="button"
+          onClick={() => onMerge(choices)}
+          className="flex-1 px-4 py-3 bg-legacy-primary text-white rounded hover:bg-legacy-dark transition-colors font-serif font-bold text-sm tracking-wide shadow-lg"
+        >
+          MERGE
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Steps through likely duplicate people, merging or dismissing each pair
+const MergeReviewDialog: React.FC<MergeReviewDialogProps> = ({ graph, candidates, onMerge, onDismiss, onClose }) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(dialogRef, onClose);
+
+  // Earlier merges can remove people a later proposal refers to
+  const open = candidates.filter(c => graph.persons[c.keepId] && graph.persons[c.mergeId]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const selected = open[Math.min(selectedIndex, open.length - 1)];
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-legacy-primary/40 backdrop-blur-sm"
+        onClick={onClose}
+      ></div>
+
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="merge-review-title"
+        className="relative bg-white w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-lg shadow-2xl p-8 border border-gray-200 animate-in fade-in zoom-in duration-200"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-legacy-mute hover:text-legacy-primary transition-colors"
+          aria-label="Close"
+        >
+          <FaTimes size={20} />
+        </button>
+
+        <h2 id="merge-review-title" className="font-serif text-2xl font-bold text-legacy-dark mb-2 text-center">
+          Possible Duplicates
+        </h2>
+        <p className="text-sm text-legacy-mute text-center mb-6 border-b border-gray-100 pb-4">
+          {open.length === 0
+            ? 'No more likely duplicates were found.'
+            : `${open.length} pair${open.length === 1 ? '' : 's'} may be the same person.`}
+        </p>
+
+        {selected && (
+          <div className="flex flex-col md:flex-row gap-6">
+            <ul className="md:w-56 shrink-0 max-h-48 md:max-h-[60vh] overflow-y-auto border border-gray-100 rounded">
+              {open.map((candidate, i) => {
+                const keep = graph.persons[candidate.keepId];
+                const merge = graph.persons[candidate.mergeId];
+                return (
+                  <li key={`${candidate.keepId}|${candidate.mergeId}`}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedIndex(i)}
+                      className={`w-full flex flex-col px-3 py-2 text-left transition-colors ${candidate === selected ? 'bg-legacy-light' : 'hover:bg-legacy-light/60'}`}
+                    >
+                      {[keep, merge].map(person => (
+                        <span key={person.id} className="text-[10px] text-legacy-mute truncate">
+                          <span className="font-serif text-xs font-bold text-legacy-dark uppercase">{person.name}</span> {formatLifespan(person)}
+                        </span>
+                      ))}
+                      <span className="text-[10px] text-legacy-accent font-bold">{Math.round(candidate.score * 100)}% · {candidate.reasons.join(', ')}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <div className="flex-1 min-w-0">
+              <Comparison
+                key={`${selected.keepId}|${selected.mergeId}`}
+                graph={graph}
+                candidate={selected}
+                onMerge={(choices) => onMerge(selected, choices)}
+                onDismiss={() => onDismiss(selected)}
+              />
+            </div>
+          </div>
+        )}
+
+        {!selected && (
+          <div className="flex justify-center">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 bg-legacy-primary text-white rounded hover:bg-legacy-dark transition-colors font-serif font-bold text-sm tracking-wide shadow-lg"
+            >
+              DONE
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MergeReviewDialog;
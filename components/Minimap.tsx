@@ -0,0 +1,91 @@
+import React, { useMemo, useRef } from 'react';
+import { COLORS } from '../constants.ts';
+
+// Chart-space rectangle: left, top, right, bottom
+type Rect = [number, number, number, number];
+
+interface MinimapProps {
+  // Where each person is drawn, in chart coordinates
+  points: [number, number][];
+  // Extent of the whole chart
+  bounds: Rect;
+  // The part of the chart currently on screen
+  viewport: Rect;
+  // Centers the screen on a chart point
+  onPan: (x: number, y: number) => void;
+}
+
+const MAP_WIDTH = 200;
+const MAP_HEIGHT = 130;
+const MAP_PADDING = 6;
+
+// Overview of the whole tree with the visible area outlined. Dragging the outline (or clicking
+// anywhere on the map) moves the main view.
+const Minimap: React.FC<MinimapProps> = ({ points, bounds, viewport, onPan }) => {
+  // Offset between the pointer and the viewport center while dragging the outline
+  const grabOffset = useRef<[number, number]>([0, 0]);
+
+  const [x0, y0, x1, y1] = bounds;
+  const scale = Math.min((MAP_WIDTH - MAP_PADDING * 2) / Math.max(x1 - x0, 1), (MAP_HEIGHT - MAP_PADDING * 2) / Math.max(y1 - y0, 1));
+  const offsetX = (MAP_WIDTH - (x1 - x0) * scale) / 2 - x0 * scale;
+  const offsetY = (MAP_HEIGHT - (y1 - y0) * scale) / 2 - y0 * scale;
+
+  // Drawn as one path of round dots, so even thousands of people stay cheap
+  const dots = useMemo(() => (
+    <path
+      d={points.map(([x, y]) => `M${(x * scale + offsetX).toFixed(1)},${(y * scale + offsetY).toFixed(1)}h0`).join('')}
+      stroke={COLORS.nodeBorder}
+      strokeWidth={3}
+      strokeLinecap="round"
+    />
+  ), [points, scale, offsetX, offsetY]);
+
+  const toChart = (e: React.PointerEvent<SVGSVGElement>): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [(e.clientX - rect.left - offsetX) / scale, (e.clientY - rect.top - offsetY) / scale];
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const [x, y] = toChart(e);
+    const [vx0, vy0, vx1, vy1] = viewport;
+    const grabbedOutline = x >= vx0 && x <= vx1 && y >= vy0 && y <= vy1;
+    grabOffset.current = grabbedOutline ? [x - (vx0 + vx1) / 2, y - (vy0 + vy1) / 2] : [0, 0];
+    onPan(x - grabOffset.current[0], y - grabOffset.current[1]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const [x, y] = toChart(e);
+    onPan(x - grabOffset.current[0], y - grabOffset.current[1]);
+  };
+
+  const [vx0, vy0, vx1, vy1] = viewport;
+  return (
+    <div className="hidden md:block bg-white/90 border border-legacy-primary/20 rounded shadow-md overflow-hidden">
+      <svg
+        width={MAP_WIDTH}
+        height={MAP_HEIGHT}
+        className="block cursor-pointer touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+      >
+        <title>Overview: drag the frame to move around the tree</title>
+        {dots}
+        <rect
+          x={vx0 * scale + offsetX}
+          y={vy0 * scale + offsetY}
+          width={(vx1 - vx0) * scale}
+          height={(vy1 - vy0) * scale}
+          fill={COLORS.accent}
+          fillOpacity={0.12}
+          stroke={COLORS.accent}
+          strokeWidth={1.5}
+          className="cursor-move"
+        />
+      </svg>
+    </div>
+  );
+};
+
+export default Minimap;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import { Partnership } from '../types.ts';
+import { formatDate, parseDate } from '../utils/dates.ts';
+import EventFields, { toEvent } from './EventFields.tsx';
+
+interface PartnershipModalProps {
+  partnership: Partnership;
+  partnerNames: [string, string];
+  childCount: number;
+  onSave: (id: string, updates: Pick<Partnership, 'marriage' | 'divorce'>) => void;
+  onClose: () => void;
+}
+
+const PartnershipModal: React.FC<PartnershipModalProps> = ({ partnership, partnerNames, childCount, onSave, onClose }) => {
+  const [marriageDate, setMarriageDate] = useState(formatDate(partnership.marriage?.date));
+  const [marriagePlace, setMarriagePlace] = useState(partnership.marriage?.place || '');
+  const [isDivorced, setIsDivorced] = useState(!!partnership.divorce);
+  const [divorceDate, setDivorceDate] = useState(formatDate(partnership.divorce?.date));
+  const [divorcePlace, setDivorcePlace] = useState(partnership.divorce?.place || '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (parseDate(marriageDate) === null || (isDivorced && parseDate(divorceDate) === null)) return;
+    onSave(partnership.id, {
+      marriage: toEvent(marriageDate, marriagePlace),
+      // A divorce with no known date or place is still recorded
+      divorce: isDivorced ? toEvent(divorceDate, divorcePlace) ?? {} : undefined
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-legacy-primary/40 backdrop-blur-sm"
+        onClick={onClose}
+      ></div>
+
+      <div className="relative bg-white w-full max-w-md rounded-lg shadow-2xl p-8 border border-gray-200 animate-in fade-in zoom-in duration-200">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-legacy-mute hover:text-legacy-primary transition-colors"
+        >
+          <FaTimes size={20} />
+        </button>
+
+        <h2 className="font-serif text-2xl font-bold text-legacy-dark mb-2 text-center">
+          Marriage
+        </h2>
+        <p className="text-sm text-legacy-mute text-center mb-6 border-b border-gray-100 pb-4">
+          {partnerNames[0]} &amp; {partnerNames[1]}
+          {childCount > 0 && ` · ${childCount} ${childCount === 1 ? 'child' : 'children'} together`}
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <EventFields label="Marriage" date={marriageDate} place={marriagePlace} onDateChange={setMarriageDate} onPlaceChange={setMarriagePlace} />
+
+          <label className="flex items-center gap-2 text-xs font-bold text-legacy-mute uppercase tracking-wider cursor-pointer">
+            <input
+              type="checkbox"
+              checked={isDivorced}
+              onChange={(e) => setIsDivorced(e.target.checked)}
+              className="accent-legacy-primary"
+            />
+            Ended in divorce
+          </label>
+
+          {isDivorced && (
+            <EventFields label="Divorce" date={divorceDate} place={divorcePlace} onDateChange={setDivorceDate} onPlaceChange={setDivorcePlace} />
+          )}
+
+          <div className="flex gap-4 pt-6 mt-4 border-t border-gray-100">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 border border-gray-300 rounded text-legacy-mute hover:bg-gray-50 transition-colors font-serif font-bold text-sm tracking-wide"
+            >
+              CANCEL
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-3 bg-legacy-primary text-white rounded hover:bg-legacy-dark transition-colors font-serif font-bold text-sm tracking-wide shadow-lg"
+            >
+              SAVE
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PartnershipModal;
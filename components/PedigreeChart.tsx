@@ -0,0 +1,249 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { FamilyMember, Person } from '../types.ts';
+import { COLORS } from '../constants.ts';
+import { formatLifespan } from '../utils/dates.ts';
+import { ahnentafelSlots, childSlotOf, generationOf } from '../utils/ahnentafel.ts';
+import { ValidationIssue } from '../utils/validation.ts';
+import { drawIssueBadge } from './LegacyTree.tsx';
+
+interface PedigreeChartProps {
+  data: FamilyMember;
+  // Generations shown, the focus person included
+  generations: number;
+  width: number;
+  height: number;
+  onEdit: (member: Person) => void;
+  onAddParent: (id: string) => void;
+  onFocus: (id: string) => void;
+  highlightPath?: string[];
+  issues?: Record<string, ValidationIssue[]>;
+  svgRef?: React.RefObject<SVGSVGElement>;
+}
+
+const BOX_WIDTH = 210;
+const BOX_HEIGHT = 60;
+const COLUMN_SPACING = 270;
+const ROW_SPACING = 74;
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+// Classic horizontal pedigree: the focus person on the left and each generation in a column to the
+// right, every ancestor in a fixed ahnentafel position so blank boxes show who is still unknown.
+const PedigreeChart: React.FC<PedigreeChartProps> = ({ data, generations, width, height, onEdit, onAddParent, onFocus, highlightPath, issues, svgRef: externalSvgRef }) => {
+  const ownSvgRef = useRef<SVGSVGElement>(null);
+  const svgRef = externalSvgRef || ownSvgRef;
+  const currentZoomState = useRef<d3.ZoomTransform | null>(null);
+  const zoomedView = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+
+    const slots = ahnentafelSlots(data, generations);
+    const chartHeight = 2 ** (generations - 1) * ROW_SPACING;
+    const chartWidth = (generations - 1) * COLUMN_SPACING + BOX_WIDTH;
+    // Left-middle point of a slot's box
+    const position = (slot: number): [number, number] => {
+      const generation = generationOf(slot);
+      const index = slot - 2 ** generation;
+      return [generation * COLUMN_SPACING, ((index + 0.5) / 2 ** generation - 0.5) * chartHeight];
+    };
+
+    const zoomGroup = svg.append("g");
+    const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([0.2, 2])
+      .on("zoom", (event) => {
+        zoomGroup.attr("transform", event.transform);
+        currentZoomState.current = event.transform;
+      });
+    svg.call(zoom);
+
+    // Keep the user's position while editing; a new focus or depth starts with the whole chart in view
+    const viewKey = `${data.id}:${generations}`;
+    if (currentZoomState.current && zoomedView.current === viewKey) {
+      svg.call(zoom.transform, currentZoomState.current);
+    } else {
+      const scale = Math.max(0.2, Math.min(1, (width - 80) / chartWidth, (height - 240) / chartHeight));
+      svg.call(zoom.transform, d3.zoomIdentity.translate((width - chartWidth * scale) / 2, height / 2 + 40).scale(scale));
+      zoomedView.current = viewKey;
+    }
+
+    const pathIds = new Set(highlightPath || []);
+    const defs = svg.append("defs");
+    const linksGroup = zoomGroup.append("g").attr("class", "links");
+    const nodesGroup = zoomGroup.append("g").attr("class", "nodes");
+
+    // Slots to draw: everyone known, plus an empty box for each missing parent of someone known
+    const drawn = Array.from(slots.keys());
+    slots.forEach((_, slot) => {
+      if (generationOf(slot) + 1 >= generations) return;
+      [slot * 2, slot * 2 + 1].forEach(parentSlot => {
+        if (!slots.has(parentSlot)) drawn.push(parentSlot);
+      });
+    });
+
+    // 1. Elbow connectors from each child to its parents
+    drawn.filter(slot => slot > 1).forEach(slot => {
+      const [cx, cy] = position(childSlotOf(slot));
+      const [px, py] = position(slot);
+      const startX = cx + BOX_WIDTH;
+      const midX = startX + (px - startX) / 2;
+      const member = slots.get(slot);
+      const onPath = member && pathIds.has(member.id) && pathIds.has(slots.get(childSlotOf(slot))!.id);
+      linksGroup.append("path")
+        .attr("class", member ? null : "add-slot")
+        .attr("d", `M ${startX} ${cy} H ${midX} V ${py} H ${px}`)
+        .attr("fill", "none")
+        .attr("stroke", onPath ? COLORS.highlight : COLORS.link)
+        .attr("stroke-width", onPath ? 4 : 2)
+        .attr("stroke-dasharray", member ? null : "4 4");
+    });
+
+    // 2. Boxes
+    drawn.forEach(slot => {
+      const [x, y] = position(slot);
+      const member = slots.get(slot);
+      const group = nodesGroup.append("g").attr("transform", `translate(${x}, ${y})`);
+
+      if (!member) {
+        const child = slots.get(childSlotOf(slot))!;
+        const placeholder = group.append("g")
+          .attr("class", "add-slot")
+          .style("cursor", "pointer")
+          .on("click", (e) => {
+            e.stopPropagation();
+            onAddParent(child.id);
+          });
+        placeholder.append("rect")
+          .attr("y", -BOX_HEIGHT / 2)
+          .attr("width", BOX_WIDTH)
+          .attr("height", BOX_HEIGHT)
+          .attr("rx", 4)
+          .attr("fill", COLORS.background)
+          .attr("fill-opacity", 0.5)
+          .attr("stroke", COLORS.link)
+          .attr("stroke-dasharray", "4 4");
+        placeholder.append("text")
+          .attr("x", BOX_WIDTH / 2)
+          .attr("dy", 4)
+          .attr("text-anchor", "middle")
+          .text(slot % 2 === 0 ? "+ ADD FATHER" : "+ ADD MOTHER")
+          .attr("fill", COLORS.subText)
+          .attr("font-family", "Cinzel, serif")
+          .attr("font-size", "10px")
+          .attr("letter-spacing", "2px");
+        placeholder.append("title").text(`Add a parent of ${child.name}`);
+        return;
+      }
+
+      const isHighlighted = pathIds.has(member.id);
+      const box = group.append("g")
+        .style("cursor", "pointer")
+        .on("click", (e) => {
+          e.stopPropagation();
+          onEdit(member);
+        });
+
+      box.append("rect")
+        .attr("y", -BOX_HEIGHT / 2)
+        .attr("width", BOX_WIDTH)
+        .attr("height", BOX_HEIGHT)
+        .attr("rx", 4)
+        .attr("fill", COLORS.background)
+        .attr("stroke", isHighlighted ? COLORS.highlight : COLORS.nodeBorder)
+        .attr("stroke-width", isHighlighted ? 3 : 1.5);
+
+      const clipId = `pedigree-clip-${slot}`;
+      defs.append("clipPath").attr("id", clipId)
+        .append("circle").attr("cx", 30).attr("r", 22);
+      box.append("image")
+        .attr("xlink:href", member.imageUrl)
+        .attr("x", 8)
+        .attr("y", -22)
+        .attr("width", 44)
+        .attr("height", 44)
+        .attr("clip-path", `url(#${clipId})`);
+
+      box.append("text")
+        .attr("x", 62)
+        .attr("y", -4)
+        .text(truncate(member.name.toUpperCase(), 18))
+        .attr("fill", COLORS.text)
+        .attr("font-family", "Cinzel, serif")
+        .attr("font-size", "11px")
+        .attr("font-weight", "bold");
+      box.append("text")
+        .attr("x", 62)
+        .attr("y", 12)
+        .text(formatLifespan(member))
+        .attr("fill", COLORS.subText)
+        .attr("font-family", "Lato, sans-serif")
+        .attr("font-size", "10px");
+      // Ahnentafel number
+      box.append("text")
+        .attr("x", BOX_WIDTH - 6)
+        .attr("y", -BOX_HEIGHT / 2 + 12)
+        .attr("text-anchor", "end")
+        .text(String(slot))
+        .attr("fill", COLORS.link)
+        .attr("font-family", "Lato, sans-serif")
+        .attr("font-size", "9px");
+      box.append("title").text(member.name);
+
+      drawIssueBadge(box, issues?.[member.id], BOX_WIDTH, -BOX_HEIGHT / 2);
+
+      // -- CONTROLS --
+      const controls = group.append("g")
+        .attr("class", "controls")
+        .attr("opacity", 0)
+        .style("transition", "opacity 0.2s ease");
+
+      // Center Here: the chart is redrawn with this ancestor in the first column
+      if (slot > 1) {
+        const focusBtn = controls.append("g")
+          .attr("transform", `translate(${BOX_WIDTH - 14}, ${BOX_HEIGHT / 2})`)
+          .style("cursor", "pointer")
+          .on("click", (e) => {
+            e.stopPropagation();
+            onFocus(member.id);
+          });
+        focusBtn.append("circle").attr("r", 10).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
+        focusBtn.append("text").attr("dy", 3.5).attr("text-anchor", "middle").text("◎").attr("font-size", "11px");
+        focusBtn.append("title").text("Center Chart Here");
+      }
+
+      // In the last column, show whether the line continues beyond the chart
+      if (generationOf(slot) + 1 === generations) {
+        const hasParents = (member.parents || []).length > 0;
+        const moreBtn = controls.append("g")
+          .attr("transform", `translate(${BOX_WIDTH + 16}, 0)`)
+          .style("cursor", "pointer")
+          .on("click", (e) => {
+            e.stopPropagation();
+            if (hasParents) onFocus(member.id);
+            else onAddParent(member.id);
+          });
+        moreBtn.append("circle").attr("r", 10).attr("fill", COLORS.background).attr("stroke", COLORS.nodeBorder);
+        moreBtn.append("text").attr("dy", 3.5).attr("text-anchor", "middle").text(hasParents ? "▸" : "+").attr("font-weight", "bold");
+        moreBtn.append("title").text(hasParents ? "Show Earlier Generations" : "Add Ancestor");
+      }
+
+      box.on("mouseenter", () => controls.attr("opacity", 1))
+         .on("mouseleave", () => controls.attr("opacity", 0));
+      controls.on("mouseenter", () => controls.attr("opacity", 1))
+              .on("mouseleave", () => controls.attr("opacity", 0));
+    });
+
+  }, [data, generations, width, height, onEdit, onAddParent, onFocus, highlightPath, issues]);
+
+  return (
+    <div className="w-full h-full cursor-grab active:cursor-grabbing overflow-hidden relative bg-legacy-bg">
+      <svg ref={svgRef} width={width} height={height} className="block" />
+    </div>
+  );
+};
+
+export default PedigreeChart;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { FaProjectDiagram, FaTimes } from 'react-icons/fa';
+import { Person } from '../types.ts';
+import { Kinship } from '../utils/kinship.ts';
+
+interface RelationshipPanelProps {
+  people: Person[];
+  fromId: string;
+  toId: string | null;
+  result: Kinship | null;
+  onChange: (fromId: string, toId: string | null) => void;
+  autoLabels: boolean;
+  onToggleAutoLabels: () => void;
+  focusName: string;
+}
+
+const selectClass = "w-full px-2 py-1.5 bg-white border border-legacy-primary/20 rounded font-serif text-xs text-legacy-dark outline-none focus:ring-2 focus:ring-legacy-accent";
+
+const RelationshipPanel: React.FC<RelationshipPanelProps> = ({ people, fromId, toId, result, onChange, autoLabels, onToggleAutoLabels, focusName }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const sorted = [...people].sort((a, b) => a.name.localeCompare(b.name));
+  const nameOf = (id: string) => people.find(p => p.id === id)?.name ?? '';
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="fixed top-32 md:top-48 right-4 md:right-12 z-40 flex items-center gap-2 px-3 py-2 bg-white/90 border border-legacy-primary/20 rounded shadow-md text-legacy-primary hover:bg-legacy-primary hover:text-white transition-colors font-serif font-bold text-[10px] md:text-xs tracking-widest uppercase"
+        title="Work out how two people are related"
+      >
+        <FaProjectDiagram /> Relationship
+      </button>
+    );
+  }
+
+  const close = () => {
+    setIsOpen(false);
+    onChange(fromId, null);
+  };
+
+  return (
+    <div className="fixed top-32 md:top-48 right-4 md:right-12 z-40 w-56 md:w-72 p-4 bg-white/95 border border-legacy-primary/20 rounded shadow-xl space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-serif font-bold text-legacy-dark tracking-widest text-xs uppercase">Relationship</h3>
+        <button type="button" onClick={close} className="text-legacy-mute hover:text-legacy-primary" title="Close">
+          <FaTimes size={12} />
+        </button>
+      </div>
+
+      <label className="block">
+        <span className="block text-[10px] font-bold text-legacy-mute uppercase tracking-wider mb-1">How is</span>
+        <select value={toId ?? ''} onChange={(e) => onChange(fromId, e.target.value || null)} className={selectClass}>
+          <option value="">Choose someone…</option>
+          {sorted.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </label>
+      <label className="block">
+        <span className="block text-[10px] font-bold text-legacy-mute uppercase tracking-wider mb-1">Related to</span>
+        <select value={fromId} onChange={(e) => onChange(e.target.value, toId)} className={selectClass}>
+          {sorted.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </label>
+
+      {toId && (
+        <p className="font-serif text-sm text-legacy-dark border-t border-gray-100 pt-3">
+          {result
+            ? result.term === 'self'
+              ? 'That is the same person.'
+              : <><strong>{nameOf(toId)}</strong> is {nameOf(fromId)}'s <strong>{result.term}</strong>.</>
+            : <>No relationship between {nameOf(toId)} and {nameOf(fromId)} was found in the tree.</>}
+        </p>
+      )}
+
+      <label className="flex items-center gap-2 pt-3 border-t border-gray-100 text-[10px] font-bold text-legacy-mute uppercase tracking-wider cursor-pointer">
+        <input type="checkbox" checked={autoLabels} onChange={onToggleAutoLabels} className="accent-legacy-primary" />
+        Label links relative to {focusName}
+      </label>
+    </div>
+  );
+};
+
+export default RelationshipPanel;
@@ -0,0 +1,79 @@
+import React, { useRef } from 'react';
+import { FaFileImport, FaFileExport, FaFileUpload, FaFileDownload, FaImage, FaUndo, FaRedo, FaUserFriends } from 'react-icons/fa';
+
+interface ToolbarProps {
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onImportGedcom: (file: File) => void;
+  onExportGedcom: () => void;
+  onImportJson: (file: File) => void;
+  onExportJson: () => void;
+  onFindDuplicates: () => void;
+  onExportChart: () => void;
+  isExporting?: boolean;
+}
+
+const buttonClass = "flex items-center gap-2 px-3 py-2 bg-white/90 border border-legacy-primary/20 rounded shadow-md text-legacy-primary hover:bg-legacy-primary hover:text-white transition-colors font-serif font-bold text-[10px] md:text-xs tracking-widest uppercase";
+
+const iconButtonClass = "p-3 bg-white/90 border border-legacy-primary/20 rounded shadow-md text-legacy-primary hover:bg-legacy-primary hover:text-white transition-colors disabled:opacity-40 disabled:pointer-events-none";
+
+const Toolbar: React.FC<ToolbarProps> = ({ onUndo, onRedo, canUndo, canRedo, onImportGedcom, onExportGedcom, onImportJson, onExportJson, onFindDuplicates, onExportChart, isExporting }) => {
+  const gedcomInputRef = useRef<HTMLInputElement>(null);
+  const jsonInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (onImport: (file: File) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    // Reset value so the same file can be imported again
+    e.target.value = '';
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 md:bottom-12 md:right-12 z-50 flex flex-col items-end gap-2">
+      <div className="flex gap-2">
+        <button type="button" className={iconButtonClass} onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+          <FaUndo size={12} />
+        </button>
+        <button type="button" className={iconButtonClass} onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+          <FaRedo size={12} />
+        </button>
+      </div>
+      <button type="button" className={buttonClass} onClick={() => gedcomInputRef.current?.click()} title="Import a GEDCOM (.ged) file">
+        <FaFileImport /> Import GEDCOM
+      </button>
+      <button type="button" className={buttonClass} onClick={onExportGedcom} title="Download the tree as GEDCOM 5.5.1">
+        <FaFileExport /> Export GEDCOM
+      </button>
+      <button type="button" className={buttonClass} onClick={() => jsonInputRef.current?.click()} title="Import or merge a Legacy Tree file">
+        <FaFileUpload /> Import Tree
+      </button>
+      <button type="button" className={buttonClass} onClick={onExportJson} disabled={isExporting} title="Download the tree with its portraits as a single file">
+        <FaFileDownload /> {isExporting ? 'Exporting…' : 'Export Tree'}
+      </button>
+      <button type="button" className={buttonClass} onClick={onFindDuplicates} title="Find people entered more than once and merge them">
+        <FaUserFriends /> Find Duplicates
+      </button>
+      <button type="button" className={buttonClass} onClick={onExportChart} title="Download the chart as SVG, PNG or a printable PDF poster">
+        <FaImage /> Export Chart
+      </button>
+      <input
+        ref={gedcomInputRef}
+        type="file"
+        accept=".ged,.gedcom,text/plain"
+        onChange={handleFileChange(onImportGedcom)}
+        className="hidden"
+      />
+      <input
+        ref={jsonInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleFileChange(onImportJson)}
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default Toolbar;
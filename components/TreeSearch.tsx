@@ -0,0 +1,78 @@
+import React, { useState, useMemo } from 'react';
+import { FaSearch, FaTimes } from 'react-icons/fa';
+import { FamilyMember } from '../types.ts';
+import { searchTree, SearchHit } from '../utils/search.ts';
+
+interface TreeSearchProps {
+  data: FamilyMember;
+  onSelect: (hit: SearchHit) => void;
+}
+
+const TreeSearch: React.FC<TreeSearchProps> = ({ data, onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const hits = useMemo(() => searchTree(data, query), [data, query]);
+
+  const select = (hit: SearchHit) => {
+    onSelect(hit);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && hits.length > 0) {
+      e.preventDefault();
+      select(hits[0]);
+    } else if (e.key === 'Escape') {
+      setQuery('');
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="absolute top-32 md:top-48 left-4 md:left-12 z-40 w-56 md:w-72">
+      <div className="flex items-center gap-2 px-3 py-2 bg-white/90 border border-legacy-primary/20 rounded shadow-md text-legacy-primary focus-within:ring-2 focus-within:ring-legacy-accent">
+        <FaSearch size={12} />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setIsOpen(true); }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search name, year, place"
+          className="flex-1 min-w-0 bg-transparent outline-none font-serif text-xs text-legacy-dark placeholder-legacy-mute"
+        />
+        {query && (
+          <button type="button" onClick={() => { setQuery(''); setIsOpen(false); }} className="text-legacy-mute hover:text-legacy-primary" title="Clear search">
+            <FaTimes size={12} />
+          </button>
+        )}
+      </div>
+
+      {isOpen && query.trim() && (
+        <ul className="mt-1 max-h-72 overflow-y-auto bg-white border border-legacy-primary/20 rounded shadow-xl">
+          {hits.length === 0 ? (
+            <li className="px-3 py-2 text-xs text-legacy-mute font-serif">No matches</li>
+          ) : hits.map(hit => (
+            <li key={hit.id}>
+              <button
+                type="button"
+                onClick={() => select(hit)}
+                className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-legacy-light transition-colors"
+              >
+                <img src={hit.imageUrl} alt="" className="w-8 h-8 rounded-full object-cover border border-legacy-primary/20" />
+                <span className="flex flex-col min-w-0">
+                  <span className="font-serif text-xs font-bold text-legacy-dark truncate uppercase">{hit.name}</span>
+                  <span className="text-[10px] text-legacy-mute truncate">
+                    {[hit.lifespan, hit.relationship].filter(Boolean).join(' · ')}
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TreeSearch;
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { FaCheck, FaChevronDown, FaCopy, FaPen, FaPlus, FaTimes, FaTrash } from 'react-icons/fa';
+import { TreeInfo } from '../services/storage.ts';
+import { COMPACT_INPUT_CLASS } from './styles.ts';
+
+interface TreeSwitcherProps {
+  trees: TreeInfo[];
+  activeTreeId: string;
+  onSwitch: (id: string) => void;
+  // Starts a tree with just one person in it
+  onCreate: (treeName: string, personName: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ACTION_CLASS = "p-1.5 text-legacy-mute hover:text-legacy-primary transition-colors";
+
+// The trees kept in this browser: switch between them, start a new one, or rename, copy and delete
+const TreeSwitcher: React.FC<TreeSwitcherProps> = ({ trees, activeTreeId, onSwitch, onCreate, onRename, onDuplicate, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [newTree, setNewTree] = useState<{ treeName: string; personName: string } | null>(null);
+  const activeTree = trees.find(tree => tree.id === activeTreeId);
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renaming && renaming.name.trim()) onRename(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTree || !newTree.personName.trim()) return;
+    onCreate(newTree.treeName.trim(), newTree.personName.trim());
+    setNewTree(null);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        aria-expanded={isOpen}
+        className="flex items-center gap-2 px-3 py-1 border border-legacy-light/40 rounded font-serif text-[9px] md:text-sm font-bold text-legacy-light tracking-widest uppercase hover:bg-legacy-light/10 transition-colors max-w-[10rem] md:max-w-[16rem]"
+        title="Switch between your family trees"
+      >
+        <span className="truncate">{activeTree?.name || 'Trees'}</span>
+        <FaChevronDown size={10} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-64 md:w-80 bg-white border border-legacy-primary/20 rounded shadow-xl z-[60]">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+            <span className="font-serif text-[10px] font-bold text-legacy-mute tracking-widest uppercase">
+              {trees.length} tree{trees.length === 1 ? '' : 's'}
+            </span>
+            <button type="button" onClick={() => setIsOpen(false)} className="text-legacy-mute hover:text-legacy-primary" title="Close">
+              <FaTimes size={12} />
+            </button>
+          </div>
+
+          <ul className="max-h-72 overflow-y-auto">
+            {trees.map(tree => (
+              <li key={tree.id} className={`flex items-center gap-1 px-3 py-2 ${tree.id === activeTreeId ? 'bg-legacy-light' : 'hover:bg-legacy-light/60'}`}>
+                {renaming?.id === tree.id ? (
+                  <form onSubmit={handleRename} className="flex items-center gap-1 flex-1">
+                    <input
+                      autoFocus
+                      value={renaming.name}
+                      onChange={(e) => setRenaming({ id: tree.id, name: e.target.value })}
+                      className={COMPACT_INPUT_CLASS}
+                      aria-label="Tree name"
+                    />
+                    <button type="submit" className={ACTION_CLASS} title="Save Name">
+                      <FaCheck size={12} />
+                    </button>
+                  </form>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        if (tree.id !== activeTreeId) onSwitch(tree.id);
+                        setIsOpen(false);
+                      }}
+                      className="flex flex-col flex-1 min-w-0 text-left"
+                    >
+                      <span className="font-serif text-xs font-bold text-legacy-dark truncate uppercase">{tree.name}</span>
+                      <span className="text-[10px] text-legacy-mute">
+                        {tree.personCount} {tree.personCount === 1 ? 'person' : 'people'} · {new Date(tree.updatedAt).toLocaleDateString()}
+                      </span>
+                    </button>
+                    <button type="button" onClick={() => setRenaming({ id: tree.id, name: tree.name })} className={ACTION_CLASS} title="Rename">
+                      <FaPen size={11} />
+                    </button>
+                    <button type="button" onClick={() => onDuplicate(tree.id)} className={ACTION_CLASS} title="Duplicate">
+                      <FaCopy size={11} />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDelete(tree.id)}
+                      disabled={trees.length === 1}
+                      className={`${ACTION_CLASS} hover:!text-red-600 disabled:opacity-30 disabled:pointer-events-none`}
+                      title="Delete"
+                    >
+                      <FaTrash size={11} />
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {/* New empty tree: just a name for it and for the first person */}
+          <div className="border-t border-gray-100 p-3">
+            {newTree ? (
+              <form onSubmit={handleCreate} className="space-y-2">
+                <input
+                  autoFocus
+                  value={newTree.personName}
+                  onChange={(e) => setNewTree({ ...newTree, personName: e.target.value })}
+                  className={COMPACT_INPUT_CLASS}
+                  placeholder="First person's name"
+                  aria-label="First person's name"
+                />
+                <input
+                  value={newTree.treeName}
+                  onChange={(e) => setNewTree({ ...newTree, treeName: e.target.value })}
+                  className={COMPACT_INPUT_CLASS}
+                  placeholder="Tree name (optional)"
+                  aria-label="Tree name"
+                />
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setNewTree(null)}
+                    className="flex-1 px-3 py-1.5 border border-gray-300 rounded text-legacy-mute hover:bg-gray-50 transition-colors font-serif font-bold text-[10px] tracking-widest uppercase"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={!newTree.personName.trim()}
+                    className="flex-1 px-3 py-1.5 bg-legacy-primary text-white rounded hover:bg-legacy-dark transition-colors font-serif font-bold text-[10px] tracking-widest uppercase disabled:opacity-40"
+                  >
+                    Create
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setNewTree({ treeName: '', personName: '' })}
+                className="w-full flex items-center justify-center gap-2 px-3 py-1.5 text-legacy-primary hover:bg-legacy-light rounded transition-colors font-serif font-bold text-[10px] tracking-widest uppercase"
+              >
+                <FaPlus size={10} /> New Empty Tree
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TreeSwitcher;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { FaExclamationTriangle, FaTimes } from 'react-icons/fa';
+import { Person } from '../types.ts';
+import { ValidationIssue } from '../utils/validation.ts';
+
+interface ValidationPanelProps {
+  issues: ValidationIssue[];
+  persons: Record<string, Person>;
+  onSelect: (personId: string) => void;
+}
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ issues, persons, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  if (issues.length === 0) return null;
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const summary = `${issues.length} issue${issues.length === 1 ? '' : 's'}`;
+  // Errors first, then by person so one person's issues stay together
+  const sorted = [...issues].sort((a, b) =>
+    (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1) ||
+    (persons[a.personId]?.name ?? '').localeCompare(persons[b.personId]?.name ?? '')
+  );
+
+  return (
+    <div className="fixed top-44 md:top-60 left-4 md:left-12 z-30 w-56 md:w-72">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`flex items-center gap-2 px-3 py-2 bg-white/90 border rounded shadow-md font-serif font-bold text-[10px] md:text-xs tracking-widest uppercase transition-colors hover:bg-legacy-light ${
+          errorCount > 0 ? 'border-red-300 text-red-700' : 'border-amber-300 text-amber-700'
+        }`}
+        title="Show problems found in the tree"
+      >
+        <FaExclamationTriangle /> {summary}
+      </button>
+
+      {isOpen && (
+        <div className="mt-1 bg-white border border-legacy-primary/20 rounded shadow-xl">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+            <span className="font-serif text-[10px] font-bold text-legacy-mute tracking-widest uppercase">
+              {errorCount} error{errorCount === 1 ? '' : 's'}, {issues.length - errorCount} warning{issues.length - errorCount === 1 ? '' : 's'}
+            </span>
+            <button type="button" onClick={() => setIsOpen(false)} className="text-legacy-mute hover:text-legacy-primary" title="Close">
+              <FaTimes size={12} />
+            </button>
+          </div>
+          <ul className="max-h-72 overflow-y-auto">
+            {sorted.map((issue, i) => (
+              <li key={`${issue.personId}-${i}`}>
+                <button
+                  type="button"
+                  onClick={() => onSelect(issue.personId)}
+                  className="w-full flex items-start gap-2 px-3 py-2 text-left hover:bg-legacy-light transition-colors"
+                >
+                  <span className={`mt-1 w-2 h-2 rounded-full flex-shrink-0 ${issue.severity === 'error' ? 'bg-red-700' : 'bg-amber-500'}`}></span>
+                  <span className="flex flex-col min-w-0">
+                    <span className="font-serif text-xs font-bold text-legacy-dark truncate uppercase">{persons[issue.personId]?.name || 'Unnamed'}</span>
+                    <span className="text-[10px] text-legacy-mute">{issue.message}</span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValidationPanel;
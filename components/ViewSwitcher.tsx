@@ -0,0 +1,108 @@
+import React from 'react';
+import { ChartLayout, TreeViewMode } from '../types.ts';
+
+interface ViewSwitcherProps {
+  layout: ChartLayout;
+  mode: TreeViewMode;
+  // Depth of the pedigree and fan charts
+  generations: number;
+  focusName: string;
+  // Set when the chart is centered on someone other than the tree's root person
+  rootName?: string;
+  onChangeLayout: (layout: ChartLayout) => void;
+  onChangeMode: (mode: TreeViewMode) => void;
+  onChangeGenerations: (generations: number) => void;
+  onResetFocus: () => void;
+  // Makes the focus person the tree's root, the person it opens on
+  onMakeRoot: () => void;
+}
+
+const LAYOUTS: { layout: ChartLayout; label: string }[] = [
+  { layout: 'tree', label: 'Tree' },
+  { layout: 'pedigree', label: 'Pedigree' },
+  { layout: 'fan', label: 'Fan' }
+];
+
+const MODES: { mode: TreeViewMode; label: string }[] = [
+  { mode: 'ancestors', label: 'Ancestors' },
+  { mode: 'descendants', label: 'Descendants' }
+];
+
+const GENERATION_CHOICES = [3, 4, 5, 6, 7];
+
+const optionClass = (isActive: boolean) =>
+  `px-4 py-2 font-serif font-bold text-[10px] md:text-xs tracking-widest uppercase transition-colors ${
+    isActive ? 'bg-legacy-primary text-white' : 'text-legacy-primary hover:bg-legacy-light'
+  }`;
+
+const linkClass = "font-serif text-[9px] md:text-[10px] font-bold text-legacy-primary tracking-widest uppercase underline underline-offset-2 hover:text-legacy-accent transition-colors";
+
+const ViewSwitcher: React.FC<ViewSwitcherProps> = ({ layout, mode, generations, focusName, rootName, onChangeLayout, onChangeMode, onChangeGenerations, onResetFocus, onMakeRoot }) => {
+  const caption = layout !== 'tree' ? 'Ancestors of' : mode === 'ancestors' ? 'Family of' : 'Descendants of';
+  return (
+    <div className="fixed top-32 md:top-48 left-1/2 -translate-x-1/2 z-40 flex flex-col items-center gap-1">
+      <div className="flex bg-white/90 border border-legacy-primary/20 rounded shadow-md overflow-hidden">
+        {LAYOUTS.map(option => (
+          <button
+            key={option.layout}
+            type="button"
+            onClick={() => onChangeLayout(option.layout)}
+            className={optionClass(option.layout === layout)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {/* The tree can grow either way; the pedigree and fan charts always show ancestors */}
+      {layout === 'tree' ? (
+        <div className="flex bg-white/90 border border-legacy-primary/20 rounded shadow-md overflow-hidden">
+          {MODES.map(option => (
+            <button
+              key={option.mode}
+              type="button"
+              onClick={() => onChangeMode(option.mode)}
+              className={optionClass(option.mode === mode)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <label className="flex items-center gap-2 px-3 py-1 bg-white/90 border border-legacy-primary/20 rounded shadow-md font-serif font-bold text-[10px] md:text-xs text-legacy-primary tracking-widest uppercase">
+          Generations
+          <select
+            value={generations}
+            onChange={(e) => onChangeGenerations(Number(e.target.value))}
+            className="bg-transparent outline-none cursor-pointer"
+          >
+            {GENERATION_CHOICES.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      )}
+      <span className="font-serif text-[9px] md:text-[10px] font-bold text-legacy-mute tracking-widest uppercase">
+        {caption} {focusName}
+      </span>
+      {rootName && (
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={onResetFocus}
+            className={linkClass}
+          >
+            Back to {rootName}
+          </button>
+          <button
+            type="button"
+            onClick={onMakeRoot}
+            className={linkClass}
+            title={`Open this tree on ${focusName} from now on`}
+          >
+            Make Home Person
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ViewSwitcher;
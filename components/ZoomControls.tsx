@@ -0,0 +1,37 @@
+import React from 'react';
+import { FaCrosshairs, FaExpand, FaMinus, FaPlus } from 'react-icons/fa';
+
+interface ZoomControlsProps {
+  scale: number;
+  minScale: number;
+  maxScale: number;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  // Shows the whole tree
+  onFit: () => void;
+  // Back to the starting view around the focus person
+  onReset: () => void;
+}
+
+const buttonClass = "p-3 text-legacy-primary hover:bg-legacy-primary hover:text-white transition-colors disabled:opacity-40 disabled:pointer-events-none";
+
+const ZoomControls: React.FC<ZoomControlsProps> = ({ scale, minScale, maxScale, onZoomIn, onZoomOut, onFit, onReset }) => {
+  return (
+    <div className="flex flex-col bg-white/90 border border-legacy-primary/20 rounded shadow-md overflow-hidden divide-y divide-legacy-primary/20">
+      <button type="button" className={buttonClass} onClick={onZoomIn} disabled={scale >= maxScale - 0.001} title="Zoom In">
+        <FaPlus size={12} />
+      </button>
+      <button type="button" className={buttonClass} onClick={onZoomOut} disabled={scale <= minScale + 0.001} title="Zoom Out">
+        <FaMinus size={12} />
+      </button>
+      <button type="button" className={buttonClass} onClick={onFit} title="Fit Tree to Screen">
+        <FaExpand size={12} />
+      </button>
+      <button type="button" className={buttonClass} onClick={onReset} title="Reset View">
+        <FaCrosshairs size={12} />
+      </button>
+    </div>
+  );
+};
+
+export default ZoomControls;
@@ -0,0 +1,9 @@
+// Class names shared by the form controls of several components
+
+// Fields in the dark edit dialogs
+export const INPUT_CLASS = "w-full px-4 py-2 bg-gray-700 text-white border border-gray-600 rounded focus:ring-2 focus:ring-legacy-accent focus:border-transparent outline-none font-sans placeholder-gray-400";
+export const LABEL_CLASS = "block text-xs font-bold text-legacy-mute uppercase tracking-wider mb-1";
+
+// Smaller fields in the light drop-down panels of the header
+export const COMPACT_INPUT_CLASS = "w-full px-2 py-1 border border-gray-300 rounded text-xs text-legacy-dark font-serif outline-none focus:ring-2 focus:ring-legacy-accent";
+export const COMPACT_LABEL_CLASS = "block font-serif text-[10px] font-bold text-legacy-mute tracking-widest uppercase mb-1";
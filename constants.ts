@@ -3,20 +3,23 @@ import { FamilyMember } from "./types.ts";
 export const INITIAL_DATA: FamilyMember = {
   id: "root",
   name: "Samuel Legacy",
-  year: "1955",
+  gender: "male",
+  birth: { date: { year: 1955 } },
   imageUrl: "https://picsum.photos/id/1062/200/200", 
   parents: [
     {
       id: "p1",
       name: "Eleanor Rigby",
-      year: "1925",
+      gender: "female",
+      birth: { date: { year: 1925 } },
       imageUrl: "https://picsum.photos/id/338/200/200", 
       relationship: "Mother",
       parents: [
          {
             id: "gp1",
             name: "Father Rigby",
-            year: "1899",
+            gender: "male",
+            birth: { date: { year: 1899 } },
             imageUrl: "https://picsum.photos/id/1005/200/200",
             relationship: "Grandfather"
          }
@@ -25,7 +28,8 @@ export const INITIAL_DATA: FamilyMember = {
     {
       id: "p2",
       name: "Arthur Legacy",
-      year: "1928",
+      gender: "male",
+      birth: { date: { year: 1928 } },
       imageUrl: "https://picsum.photos/id/1025/200/200",
       relationship: "Father",
       parents: []
@@ -40,5 +44,11 @@ export const COLORS = {
   link: "#9CA3AF",
   nodeBorder: "#1A2F2F",
   nodeBorderHover: "#D4AF37",
-  accent: "#2F4F4F"
+  accent: "#2F4F4F",
+  highlight: "#D4AF37",
+  error: "#B91C1C",
+  warning: "#D97706",
+  // Father's and mother's lines in the fan chart
+  paternal: "#335C57",
+  maternal: "#D4AF37"
 };
\ No newline at end of file
@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Collaborator, FamilyGraph, Presence } from '../types.ts';
+import { PeerState, ServerMessage, SyncConnection, connectSync } from '../services/sync.ts';
+import { EMPTY_GRAPH, GraphOperation, Replica, acceptOperations, applyOperations, diffGraphs, stampChanges } from '../utils/operations.ts';
+import { createId } from '../utils/graph.ts';
+
+// Shares the open tree with everyone in a sync room. Local edits (undo and redo included) go out as
+// operations as they happen; operations from the others are folded into the tree and its whole undo
+// history, so undo only ever takes back this user's own changes. Rejoining the same room after the
+// connection was lost exchanges just what changed in the meantime.
+
+export type SyncStatus = 'offline' | 'connecting' | 'online';
+
+export interface SyncSettings {
+  url: string;
+  room: string;
+  name: string;
+}
+
+interface Session {
+  treeId?: string;
+  settings: SyncSettings;
+  replica: Replica;
+  // The tree as last exchanged with the room; local changes are the difference from it
+  synced: FamilyGraph;
+  hasJoined: boolean;
+}
+
+const COLLABORATOR_COLORS = ['#B5543C', '#3C7DB5', '#7A5BB5', '#3C9A6B', '#C08A2E', '#B53C82'];
+
+const colorFor = (id: string) =>
+  COLLABORATOR_COLORS[[...id].reduce((sum, char) => sum + char.charCodeAt(0), 0) % COLLABORATOR_COLORS.length];
+
+interface CollaborationOptions {
+  treeId?: string;
+  data: FamilyGraph;
+  presence: Presence;
+  // From useHistory
+  reset: (graph: FamilyGraph) => void;
+  rebase: (change: (graph: FamilyGraph) => FamilyGraph) => void;
+}
+
+export const useCollaboration = ({ treeId, data, presence, reset, rebase }: CollaborationOptions) => {
+  const [status, setStatus] = useState<SyncStatus>('offline');
+  const [error, setError] = useState<string | null>(null);
+  const [peers, setPeers] = useState<PeerState[]>([]);
+  // One id per open window, so two windows of the same person are told apart
+  const [clientId] = useState(() => createId('client'));
+  const connection = useRef<SyncConnection | null>(null);
+  const session = useRef<Session | null>(null);
+  const dataRef = useRef(data);
+  dataRef.current = data;
+  const presenceRef = useRef(presence);
+  presenceRef.current = presence;
+
+  const disconnect = useCallback(() => {
+    connection.current?.close();
+    connection.current = null;
+    setStatus('offline');
+    setPeers([]);
+  }, []);
+
+  // Sends the local changes made since the last exchange
+  const publish = () => {
+    const current = session.current;
+    if (!current || !connection.current) return;
+    const ops = stampChanges(current.replica, diffGraphs(current.synced, dataRef.current));
+    current.synced = dataRef.current;
+    if (ops.length > 0) connection.current.sendOps(ops);
+  };
+
+  const receive = (ops: GraphOperation[]) => {
+    const current = session.current!;
+    const accepted = acceptOperations(current.replica, ops);
+    if (accepted.length === 0) return;
+    const before = current.synced;
+    const after = applyOperations(before, accepted);
+    current.synced = after;
+    rebase(graph => (graph === before ? after : applyOperations(graph, accepted)));
+  };
+
+  const handleMessage = (message: ServerMessage) => {
+    const current = session.current;
+    if (!current || !connection.current) return;
+    switch (message.type) {
+      case 'welcome':
+        if (!current.hasJoined && message.ops.length > 0) {
+          // First time in a room that already has a tree: this window takes it over
+          if (!confirm(`The room "${current.settings.room}" already has a tree. Replace the tree open here with it?`)) {
+            disconnect();
+            return;
+          }
+          acceptOperations(current.replica, message.ops);
+          current.synced = applyOperations(EMPTY_GRAPH, message.ops);
+          reset(current.synced);
+        } else {
+          // An empty room gets this tree; a rejoined room gets what was changed here while away
+          publish();
+          receive(message.ops);
+        }
+        current.hasJoined = true;
+        setStatus('online');
+        setPeers(message.peers);
+        connection.current.sendPresence(presenceRef.current);
+        break;
+      case 'ops':
+        publish();
+        receive(message.ops);
+        break;
+      case 'presence': {
+        const peer = { collaborator: message.collaborator, presence: message.presence };
+        setPeers(prev => prev.some(p => p.collaborator.id === peer.collaborator.id)
+          ? prev.map(p => (p.collaborator.id === peer.collaborator.id ? peer : p))
+          : [...prev, peer]);
+        break;
+      }
+      case 'leave':
+        setPeers(prev => prev.filter(p => p.collaborator.id !== message.collaboratorId));
+        break;
+    }
+  };
+  // The connection outlives renders, so it reaches the latest handler through a ref
+  const handleMessageRef = useRef(handleMessage);
+  handleMessageRef.current = handleMessage;
+
+  const connect = useCallback((settings: SyncSettings) => {
+    disconnect();
+    const previous = session.current;
+    if (!previous || previous.treeId !== treeId || previous.settings.url !== settings.url || previous.settings.room !== settings.room) {
+      session.current = { treeId, settings, replica: { clientId, clock: 0, stamps: {} }, synced: EMPTY_GRAPH, hasJoined: false };
+    } else {
+      session.current = { ...previous, settings };
+    }
+
+    const collaborator: Collaborator = { id: clientId, name: settings.name, color: colorFor(clientId) };
+    setError(null);
+    setStatus('connecting');
+    connection.current = connectSync(settings.url, settings.room, collaborator, {
+      onMessage: (message) => handleMessageRef.current(message),
+      onDisconnect: (reason) => {
+        connection.current = null;
+        setStatus('offline');
+        setPeers([]);
+        setError(reason);
+      }
+    });
+  }, [treeId, clientId, disconnect]);
+
+  useEffect(() => {
+    if (status === 'online') publish();
+  }, [data, status]);
+
+  useEffect(() => {
+    if (status === 'online') connection.current?.sendPresence(presence);
+  }, [presence.viewingId, presence.editingId, status]);
+
+  // Opening another tree leaves the room
+  useEffect(() => disconnect, [treeId, disconnect]);
+
+  return {
+    status,
+    error,
+    peers,
+    settings: session.current?.settings,
+    connect,
+    disconnect
+  };
+};
@@ -0,0 +1,60 @@
+import { useEffect, useRef, RefObject } from 'react';
+
+// Keeps keyboard focus inside a modal dialog while it is open: focus moves into it on mount, Tab and
+// Shift+Tab wrap around its controls, Escape calls `onEscape`, and focus goes back to whatever had it
+// before (e.g. the tree node that opened the dialog) when the dialog closes.
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]):not([type="hidden"]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+export const useFocusTrap = (containerRef: RefObject<HTMLElement | null>, onEscape: () => void) => {
+  // The latest handler, so the listener does not have to be re-attached on every render
+  const escapeRef = useRef(onEscape);
+  escapeRef.current = onEscape;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const previouslyFocused = document.activeElement as HTMLElement | SVGElement | null;
+    // Tree nodes redrawn while the dialog was open are new elements; they are found again by their key
+    const navKey = previouslyFocused?.getAttribute('data-nav-key');
+
+    const focusables = () =>
+      Array.from<HTMLElement>(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(el => el.offsetParent !== null || el === document.activeElement);
+
+    (focusables()[0] || container).focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        escapeRef.current();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+      const elements = focusables();
+      if (elements.length === 0) {
+        e.preventDefault();
+        container.focus();
+        return;
+      }
+      const first = elements[0];
+      const last = elements[elements.length - 1];
+      const active = document.activeElement;
+      if (e.shiftKey && (active === first || !container.contains(active))) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (active === last || !container.contains(active))) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      const target = previouslyFocused?.isConnected
+        ? previouslyFocused
+        : navKey ? document.querySelector<SVGElement>(`[data-nav-key="${CSS.escape(navKey)}"]`) : null;
+      target?.focus({ preventScroll: true });
+    };
+  }, [containerRef]);
+};
@@ -0,0 +1,75 @@
+import { useState, useCallback } from 'react';
+
+// Undo/redo wrapper around a piece of immutable state.
+// `set` records a history entry, `reset` replaces the state and forgets history (e.g. after loading a save).
+// `rebase` applies a change to every entry, so changes made by someone else are never undone here.
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+const HISTORY_LIMIT = 100;
+
+export const useHistory = <T>(initial: T) => {
+  const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((next: T | ((prev: T) => T)) => {
+    setHistory(h => {
+      const value = typeof next === 'function' ? (next as (prev: T) => T)(h.present) : next;
+      // Updaters that change nothing should not leave an empty undo step behind
+      if (value === h.present) return h;
+      return {
+        past: [...h.past, h.present].slice(-HISTORY_LIMIT),
+        present: value,
+        future: []
+      };
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  const rebase = useCallback((change: (value: T) => T) => {
+    setHistory(h => ({
+      past: h.past.map(change),
+      present: change(h.present),
+      future: h.future.map(change)
+    }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (h.past.length === 0) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: h.past[h.past.length - 1],
+        future: [h.present, ...h.future]
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (h.future.length === 0) return h;
+      return {
+        past: [...h.past, h.present],
+        present: h.future[0],
+        future: h.future.slice(1)
+      };
+    });
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    reset,
+    rebase,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+};
@@ -0,0 +1,92 @@
+// Stand-in sync server for editing a tree together on one machine or a local network:
+//   npm run sync-server            (listens on ws://localhost:8787, PORT=... to change)
+// Each room keeps the latest operation on every register of its tree (see utils/operations.ts) and
+// hands them to whoever joins; new operations and presence are passed on to the rest of the room.
+// Rooms live in memory only, so they are gone when the server stops.
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PORT) || 8787;
+
+const compareStamps = (a, b) =>
+  a.clock - b.clock || (a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0);
+
+// room name -> { registers: Map<key, operation>, members: Map<socket, { collaborator, presence }> }
+const rooms = new Map();
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (room, from, message) => {
+  room.members.forEach((_member, socket) => {
+    if (socket !== from) send(socket, message);
+  });
+};
+
+// Clients are not trusted: anything that does not have the expected shape is dropped
+const isObject = value => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCollaborator = value =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' && typeof value.color === 'string';
+
+const isOperation = value =>
+  isObject(value) && typeof value.key === 'string' && 'value' in value &&
+  isObject(value.stamp) && Number.isFinite(value.stamp.clock) && typeof value.stamp.clientId === 'string';
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', socket => {
+  let room = null;
+
+  socket.on('message', raw => {
+    let message;
+    try {
+      message = JSON.parse(String(raw));
+    } catch {
+      return;
+    }
+    if (!isObject(message)) return;
+
+    if (message.type === 'join' && !room) {
+      if (typeof message.room !== 'string' || !message.room || !isCollaborator(message.collaborator)) return;
+      room = rooms.get(message.room) || { registers: new Map(), members: new Map() };
+      rooms.set(message.room, room);
+      send(socket, {
+        type: 'welcome',
+        ops: [...room.registers.values()],
+        peers: [...room.members.values()]
+      });
+      room.members.set(socket, { collaborator: message.collaborator, presence: {} });
+      broadcast(room, socket, { type: 'presence', collaborator: message.collaborator, presence: {} });
+      console.log(`${message.collaborator.name} joined ${message.room} (${room.members.size} in the room)`);
+      return;
+    }
+    if (!room) return;
+
+    if (message.type === 'ops') {
+      if (!Array.isArray(message.ops) || !message.ops.every(isOperation)) return;
+      // Operations older than what a register holds lost to a concurrent edit and are dropped
+      const accepted = message.ops.filter(op => {
+        const current = room.registers.get(op.key);
+        if (current && compareStamps(op.stamp, current.stamp) <= 0) return false;
+        room.registers.set(op.key, op);
+        return true;
+      });
+      if (accepted.length > 0) broadcast(room, socket, { type: 'ops', ops: accepted });
+    } else if (message.type === 'presence') {
+      if (!isObject(message.presence)) return;
+      const member = room.members.get(socket);
+      member.presence = message.presence;
+      broadcast(room, socket, { type: 'presence', collaborator: member.collaborator, presence: member.presence });
+    }
+  });
+
+  socket.on('close', () => {
+    const member = room?.members.get(socket);
+    if (!member) return;
+    room.members.delete(socket);
+    broadcast(room, socket, { type: 'leave', collaboratorId: member.collaborator.id });
+  });
+});
+
+server.on('listening', () => console.log(`Sync server listening on ws://localhost:${PORT}`));
@@ -0,0 +1,384 @@
+import { FamilyGraph, FamilyMember, MediaItem, Partnership, Person } from '../types.ts';
+import { buildGraph, createId, graphFromTree, toSnapshot, GraphSnapshot } from '../utils/graph.ts';
+import { upgradeLegacyPerson } from '../utils/dates.ts';
+import { fetchAsDataUrl } from './files.ts';
+
+// Single-file JSON export of a whole tree. Portraits and media files are pulled out of the people
+// into an `assets` table of data URLs so the file works offline and shared images are stored once.
+// v1: `tree` holds a nested FamilyMember tree
+// v2: `graph` holds a GraphSnapshot
+// v3: people carry structured birth/death events instead of a free-text `year`
+// v4: people may carry media (photos, documents, audio)
+
+export const BUNDLE_FORMAT = 'legacy-tree';
+export const BUNDLE_VERSION = 4;
+
+const ASSET_PREFIX = 'asset:';
+
+export interface TreeBundle {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  graph: GraphSnapshot;
+  assets: Record<string, string>;
+}
+
+export interface MergeResult {
+  graph: FamilyGraph;
+  skipped: string[];
+}
+
+export interface CombineResult {
+  graph: FamilyGraph;
+  // The ids the imported people ended up with
+  incomingIds: string[];
+}
+
+// --- Export ---
+
+// Linked images are downloaded and embedded; if a host refuses (e.g. CORS) the link is kept as-is
+const embedImage = async (url: string): Promise<string> => {
+  try {
+    return await fetchAsDataUrl(url);
+  } catch (err) {
+    console.warn(`Could not embed ${url}; keeping the link instead.`, err);
+    return url;
+  }
+};
+
+export const createBundle = async (graph: FamilyGraph): Promise<TreeBundle> => {
+  const snapshot = toSnapshot(graph);
+  const assetKeys = new Map<string, string>();
+  const addAsset = (url?: string) => {
+    if (url && !assetKeys.has(url)) assetKeys.set(url, `img-${assetKeys.size + 1}`);
+  };
+  const assetRef = (url?: string) => (url ? `${ASSET_PREFIX}${assetKeys.get(url)}` : url);
+
+  snapshot.persons.forEach(person => {
+    addAsset(person.imageUrl);
+    person.media?.forEach(item => {
+      addAsset(item.src);
+      addAsset(item.portrait);
+    });
+  });
+
+  const assets: Record<string, string> = {};
+  await Promise.all(Array.from(assetKeys.entries()).map(async ([url, key]) => {
+    assets[key] = await embedImage(url);
+  }));
+
+  return {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    graph: {
+      ...snapshot,
+      persons: snapshot.persons.map(person => ({
+        ...person,
+        imageUrl: assetRef(person.imageUrl),
+        media: person.media?.map(item => ({ ...item, src: assetRef(item.src), portrait: assetRef(item.portrait) }))
+      }))
+    },
+    assets
+  };
+};
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEvent = (value: unknown) =>
+  value === undefined || (isObject(value) && (value.date === undefined || isObject(value.date)) && (value.place === undefined || typeof value.place === 'string'));
+
+const MEDIA_KINDS = ['photo', 'document', 'audio'];
+
+const isMediaItem = (value: unknown) =>
+  isObject(value) && typeof value.id === 'string' && MEDIA_KINDS.includes(value.kind as string) &&
+  typeof value.src === 'string' && typeof value.mimeType === 'string' &&
+  (value.caption === undefined || typeof value.caption === 'string') &&
+  (value.date === undefined || isObject(value.date)) &&
+  (value.portrait === undefined || typeof value.portrait === 'string') &&
+  (value.crop === undefined || isObject(value.crop));
+
+// `legacy` files (format v1 and v2) have a free-text year instead of birth and death events
+const checkPersonFields = (node: Record<string, unknown>, label: string, problems: string[], legacy: boolean) => {
+  const { name, imageUrl, relationship, notes } = node;
+  if (typeof name !== 'string') problems.push(`${label} has no name.`);
+  if (typeof imageUrl !== 'string') problems.push(`${label} has an invalid image.`);
+  if (relationship !== undefined && typeof relationship !== 'string') problems.push(`${label} has an invalid relationship.`);
+  if (legacy) {
+    if (typeof node.year !== 'string') problems.push(`${label} has an invalid year.`);
+    return;
+  }
+  if (!isEvent(node.birth)) problems.push(`${label} has an invalid birth.`);
+  if (!isEvent(node.death)) problems.push(`${label} has an invalid death.`);
+  if (notes !== undefined && typeof notes !== 'string') problems.push(`${label} has invalid notes.`);
+  const { media } = node;
+  if (media !== undefined && (!Array.isArray(media) || !media.every(isMediaItem))) problems.push(`${label} has invalid media.`);
+};
+
+// Checks a v1 nested tree (which always has free-text years). Returns human-readable problems; an empty list means the tree is usable.
+export const validateTree = (value: unknown): string[] => {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  const check = (node: unknown, path: string, ancestry: Set<string>) => {
+    if (!isObject(node)) {
+      problems.push(`${path} is not a person.`);
+      return;
+    }
+    const { id, parents, spouse } = node;
+    if (typeof id !== 'string' || id === '') {
+      problems.push(`${path} has no id.`);
+      return;
+    }
+    const label = `${path} (${id})`;
+    checkPersonFields(node, label, problems, true);
+
+    if (ancestry.has(id)) {
+      problems.push(`${label} is listed as their own ancestor or spouse (cycle).`);
+      return;
+    }
+    if (seen.has(id)) {
+      problems.push(`${label} uses an id that appears more than once.`);
+      return;
+    }
+    seen.add(id);
+
+    const nextAncestry = new Set(ancestry).add(id);
+    if (parents !== undefined) {
+      if (!Array.isArray(parents)) {
+        problems.push(`${label} has an invalid parents list.`);
+      } else {
+        parents.forEach((p, i) => check(p, `${path}.parents[${i}]`, nextAncestry));
+      }
+    }
+    if (spouse !== undefined) {
+      check(spouse, `${path}.spouse`, nextAncestry);
+    }
+  };
+
+  check(value, 'tree', new Set());
+  return problems;
+};
+
+// Reports anyone who is (through their parent links) their own ancestor
+const findAncestryCycles = (parentIds: Record<string, string[]>): string[] => {
+  const problems: string[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (id: string) => {
+    if (state.get(id) === 'done') return;
+    if (state.get(id) === 'visiting') {
+      problems.push(`${id} is listed as their own ancestor (cycle).`);
+      return;
+    }
+    state.set(id, 'visiting');
+    (parentIds[id] || []).forEach(visit);
+    state.set(id, 'done');
+  };
+
+  Object.keys(parentIds).forEach(visit);
+  return problems;
+};
+
+// Checks a v2 graph snapshot. Returns human-readable problems; an empty list means the graph is usable.
+export const validateSnapshot = (value: unknown, legacy = false): string[] => {
+  if (!isObject(value)) return ["The file does not contain a tree."];
+  const { rootId, persons, parentIds, partnerships } = value;
+  const problems: string[] = [];
+
+  if (!Array.isArray(persons)) return ["The tree has no list of people."];
+  const ids = new Set<string>();
+  persons.forEach((person, i) => {
+    if (!isObject(person) || typeof person.id !== 'string' || person.id === '') {
+      problems.push(`persons[${i}] has no id.`);
+      return;
+    }
+    if (ids.has(person.id)) {
+      problems.push(`persons[${i}] (${person.id}) uses an id that appears more than once.`);
+      return;
+    }
+    ids.add(person.id);
+    checkPersonFields(person, `persons[${i}] (${person.id})`, problems, legacy);
+  });
+
+  if (typeof rootId !== 'string' || !ids.has(rootId)) {
+    problems.push("The tree's root person is missing.");
+  }
+
+  if (!isObject(parentIds)) {
+    problems.push("The tree has no parent links.");
+  } else {
+    Object.entries(parentIds).forEach(([childId, parents]) => {
+      if (!ids.has(childId)) problems.push(`Parent links refer to unknown person ${childId}.`);
+      if (!Array.isArray(parents) || parents.some(p => typeof p !== 'string' || !ids.has(p))) {
+        problems.push(`${childId} has parents that are not in the tree.`);
+      }
+    });
+    if (problems.length === 0) problems.push(...findAncestryCycles(parentIds as Record<string, string[]>));
+  }
+
+  if (!Array.isArray(partnerships)) {
+    problems.push("The tree has no list of partnerships.");
+  } else {
+    partnerships.forEach((partnership, i) => {
+      const partnerIds = isObject(partnership) ? partnership.partnerIds : undefined;
+      if (!isObject(partnership) || typeof partnership.id !== 'string' || !Array.isArray(partnerIds) || partnerIds.length !== 2) {
+        problems.push(`partnerships[${i}] is not a valid partnership.`);
+      } else if (partnerIds.some(p => !ids.has(p as string))) {
+        problems.push(`partnerships[${i}] refers to someone who is not in the tree.`);
+      } else if (partnerIds[0] === partnerIds[1]) {
+        problems.push(`partnerships[${i}] partners ${partnerIds[0]} with themselves (cycle).`);
+      } else if (!isEvent(partnership.marriage) || !isEvent(partnership.divorce)) {
+        problems.push(`partnerships[${i}] has an invalid marriage or divorce.`);
+      }
+    });
+  }
+
+  return problems;
+};
+
+// --- Import ---
+
+const failOnProblems = (problems: string[]) => {
+  if (problems.length > 0) {
+    const more = problems.length > 1 ? ` (and ${problems.length - 1} more problem${problems.length > 2 ? 's' : ''})` : '';
+    throw new Error(`${problems[0]}${more}`);
+  }
+};
+
+export const readBundle = (text: string): FamilyGraph => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!isObject(parsed) || parsed.format !== BUNDLE_FORMAT) {
+    throw new Error("The file is not a Legacy Tree export.");
+  }
+  if (typeof parsed.formatVersion !== 'number' || parsed.formatVersion > BUNDLE_VERSION) {
+    throw new Error(`The file was exported by a newer version of Legacy Tree (format v${parsed.formatVersion}).`);
+  }
+
+  let snapshot: GraphSnapshot;
+  if (parsed.formatVersion === 1) {
+    failOnProblems(validateTree(parsed.tree));
+    snapshot = toSnapshot(graphFromTree(parsed.tree as FamilyMember));
+  } else {
+    failOnProblems(validateSnapshot(parsed.graph, parsed.formatVersion < 3));
+    snapshot = parsed.graph as GraphSnapshot;
+  }
+  if (parsed.formatVersion < 3) {
+    snapshot = { ...snapshot, persons: snapshot.persons.map(upgradeLegacyPerson) };
+  }
+
+  const assets = isObject(parsed.assets) ? parsed.assets : {};
+  const restoreAsset = <T extends string | undefined>(url: T, what: string, person: Person): T => {
+    if (!url?.startsWith(ASSET_PREFIX)) return url;
+    const asset = assets[url.slice(ASSET_PREFIX.length)];
+    if (typeof asset !== 'string') {
+      throw new Error(`${what} ${url} for ${person.name} is missing from the file.`);
+    }
+    return asset as T;
+  };
+  const restoreImage = (person: Person): Person => ({
+    ...person,
+    imageUrl: restoreAsset(person.imageUrl, 'Portrait', person),
+    media: person.media?.map((item): MediaItem => ({
+      ...item,
+      src: restoreAsset(item.src, 'Media file', person),
+      portrait: restoreAsset(item.portrait, 'Portrait', person)
+    }))
+  });
+
+  return buildGraph({ ...snapshot, persons: snapshot.persons.map(restoreImage) });
+};
+
+// --- Merge ---
+
+// Merges people that share an id: the incoming details win, and any parents or partners
+// the current tree does not have yet are added. The current root stays the root.
+export const mergeGraphs = (current: FamilyGraph, incoming: FamilyGraph): MergeResult => {
+  const incomingIds = Object.keys(incoming.persons);
+  if (!incomingIds.some(id => current.persons[id])) {
+    throw new Error("The imported tree does not share anyone with the current tree, so it cannot be merged. Replace the tree instead.");
+  }
+
+  const skipped: string[] = [];
+  const persons: Record<string, Person> = { ...current.persons, ...incoming.persons };
+
+  const parentIds: Record<string, string[]> = { ...current.parentIds };
+  Object.entries(incoming.parentIds).forEach(([childId, incomingParents]) => {
+    const merged = [...(parentIds[childId] || [])];
+    incomingParents.forEach(pid => {
+      if (merged.includes(pid)) return;
+      if (merged.length >= 2) {
+        skipped.push(`${persons[pid].name} was not added as a parent of ${persons[childId].name}, who already has two parents.`);
+        return;
+      }
+      merged.push(pid);
+    });
+    parentIds[childId] = merged;
+  });
+
+  // A couple already in the current tree keeps its partnership, taking the incoming marriage details.
+  // A new couple whose partnership id is taken by another couple gets a new id.
+  const pairKey = (p: Partnership) => [...p.partnerIds].sort().join('|');
+  const incomingByPair = new Map(Object.values(incoming.partnerships).map(p => [pairKey(p), p]));
+  const existingPairs = new Set(Object.values(current.partnerships).map(pairKey));
+  const partnerships = [
+    ...Object.values(current.partnerships).map(p => {
+      const match = incomingByPair.get(pairKey(p));
+      return match ? { ...p, marriage: match.marriage ?? p.marriage, divorce: match.divorce ?? p.divorce } : p;
+    }),
+    ...Object.values(incoming.partnerships)
+      .filter(p => !existingPairs.has(pairKey(p)))
+      .map(p => (current.partnerships[p.id] ? { ...p, id: createId('union') } : p))
+  ];
+
+  const cycles = findAncestryCycles(parentIds);
+  if (cycles.length > 0) {
+    throw new Error(`Merging would make someone their own ancestor: ${cycles[0]}`);
+  }
+
+  return {
+    graph: buildGraph({ rootId: current.rootId, persons: Object.values(persons), parentIds, partnerships }),
+    skipped
+  };
+};
+
+// Adds every incoming person and relationship next to the current tree without linking the two,
+// so duplicates can be found and merged one by one afterwards. Incoming ids that are already in
+// use get new ones.
+export const combineGraphs = (current: FamilyGraph, incoming: FamilyGraph): CombineResult => {
+  const ids = new Map(Object.keys(incoming.persons).map(id => [id, current.persons[id] ? createId('person') : id]));
+  const rename = (id: string) => ids.get(id)!;
+  const snapshot = toSnapshot(current);
+  const incomingSnapshot = toSnapshot(incoming);
+
+  const parentIds = { ...snapshot.parentIds };
+  Object.entries(incomingSnapshot.parentIds).forEach(([childId, pids]) => {
+    parentIds[rename(childId)] = pids.map(rename);
+  });
+
+  return {
+    graph: buildGraph({
+      rootId: current.rootId,
+      persons: [...snapshot.persons, ...incomingSnapshot.persons.map(person => ({ ...person, id: rename(person.id) }))],
+      parentIds,
+      partnerships: [
+        ...snapshot.partnerships,
+        ...incomingSnapshot.partnerships.map(p => ({
+          ...p,
+          id: current.partnerships[p.id] ? createId('union') : p.id,
+          partnerIds: p.partnerIds.map(rename) as [string, string]
+        }))
+      ]
+    }),
+    incomingIds: [...ids.values()]
+  };
+};
@@ -0,0 +1,356 @@
+import { COLORS } from '../constants.ts';
+import { downloadFile, fetchAsDataUrl } from './files.ts';
+
+// Print exports of the drawn chart: a standalone SVG, a PNG at a chosen DPI and a PDF poster
+// tiled over several sheets. Everything is built in the browser from the live LegacyTree SVG.
+// The whole chart is exported, not just the part currently on screen.
+
+export type ChartExportFormat = 'svg' | 'png' | 'pdf';
+export type PaperSize = 'a4' | 'letter' | 'a3';
+
+export interface PosterOptions {
+  paper: PaperSize;
+  landscape: boolean;
+  // Sheets side by side; the number of rows follows from the chart's proportions
+  pagesAcross: number;
+  dpi: number;
+}
+
+export interface ChartSize {
+  width: number;
+  height: number;
+}
+
+interface StandaloneChart extends ChartSize {
+  markup: string;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+// Space around the chart so the outermost names are not cut off
+const CHART_PADDING = 60;
+// SVG user units are CSS pixels, which are 96 to the inch
+const CSS_DPI = 96;
+// Most browsers refuse to draw larger canvases
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384 / 2;
+
+// Paper sizes in PDF points (1/72 inch), portrait
+const PAPER_SIZES: Record<PaperSize, [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792],
+  a3: [841.89, 1190.55]
+};
+const PAGE_MARGIN = 36;
+const FOOTER_HEIGHT = 14;
+
+// Families drawn in the chart; only their Latin subsets are embedded to keep files small
+const CHART_FONTS = ['Cinzel', 'Lato'];
+
+// --- Standalone SVG ---
+
+// Copy of the chart without the hover controls, empty "add" slots and issue badges, mounted off
+// screen so it can be measured
+const cloneChart = (svg: SVGSVGElement) => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.querySelectorAll('.controls, .add-slot, .issue-badge').forEach(el => el.remove());
+
+  const host = document.createElement('div');
+  host.style.cssText = 'position:absolute;left:-100000px;top:0;visibility:hidden;';
+  host.appendChild(clone);
+  document.body.appendChild(host);
+
+  // The first group holds the whole chart under the current zoom transform
+  const chart = clone.querySelector(':scope > g') as SVGGElement | null;
+  const box = chart ? chart.getBBox() : { x: 0, y: 0, width: 0, height: 0 };
+  host.remove();
+  return { clone, chart, box };
+};
+
+export const measureChart = (svg: SVGSVGElement): ChartSize => {
+  const { box } = cloneChart(svg);
+  return {
+    width: Math.ceil(box.width + CHART_PADDING * 2),
+    height: Math.ceil(box.height + CHART_PADDING * 2)
+  };
+};
+
+const inlineImages = async (clone: SVGSVGElement) => {
+  const images = Array.from(clone.querySelectorAll('image'));
+  await Promise.all(images.map(async image => {
+    const href = image.getAttributeNS(XLINK_NS, 'href') || image.getAttribute('href');
+    if (!href) return;
+    try {
+      image.setAttributeNS(XLINK_NS, 'xlink:href', await fetchAsDataUrl(href));
+    } catch (err) {
+      console.warn(`Could not embed portrait ${href}; keeping the link instead.`, err);
+    }
+  }));
+};
+
+// @font-face rules for the chart fonts with the font files inlined, read from the page's Google Fonts stylesheet
+const embeddedFontCss = async (): Promise<string> => {
+  const link = document.querySelector<HTMLLinkElement>('link[href*="fonts.googleapis.com"]');
+  if (!link) return '';
+  try {
+    const response = await fetch(link.href);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const css = await response.text();
+
+    // Rules look like "/* latin */ @font-face { font-family: 'Cinzel'; ... src: url(...) ... }"
+    const rules = Array.from(css.matchAll(/(?:\/\*\s*([\w-]+)\s*\*\/\s*)?@font-face\s*{[^}]*}/g))
+      .filter(([rule, subset]) =>
+        CHART_FONTS.some(font => rule.includes(`'${font}'`) || rule.includes(`"${font}"`)) &&
+        (subset === undefined || subset === 'latin'))
+      .map(([rule]) => rule.replace(/^\/\*[^*]*\*\/\s*/, ''));
+
+    const inlined = await Promise.all(rules.map(async rule => {
+      const url = rule.match(/url\(([^)]+)\)/)?.[1].replace(/["']/g, '');
+      return url ? rule.replace(/url\([^)]+\)/, `url(${await fetchAsDataUrl(url)})`) : rule;
+    }));
+    return inlined.join('\n');
+  } catch (err) {
+    console.warn("Could not embed the chart fonts; the export will use the viewer's fonts.", err);
+    return '';
+  }
+};
+
+const buildStandaloneChart = async (svg: SVGSVGElement): Promise<StandaloneChart> => {
+  const { clone, chart, box } = cloneChart(svg);
+  const width = Math.ceil(box.width + CHART_PADDING * 2);
+  const height = Math.ceil(box.height + CHART_PADDING * 2);
+
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('xmlns:xlink', XLINK_NS);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  clone.removeAttribute('class');
+  chart?.setAttribute('transform', `translate(${CHART_PADDING - box.x}, ${CHART_PADDING - box.y})`);
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', COLORS.background);
+  clone.insertBefore(background, clone.firstChild);
+
+  const [fontCss] = await Promise.all([embeddedFontCss(), inlineImages(clone)]);
+  if (fontCss) {
+    const style = document.createElementNS(SVG_NS, 'style');
+    style.textContent = fontCss;
+    clone.insertBefore(style, clone.firstChild);
+  }
+
+  return { markup: new XMLSerializer().serializeToString(clone), width, height };
+};
+
+// --- Raster ---
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("The chart could not be drawn."));
+    image.src = src;
+  });
+
+const checkCanvasSize = (width: number, height: number) => {
+  if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE || width * height > MAX_CANVAS_AREA) {
+    throw new Error(`The chart would be ${width} × ${height} pixels, which is too large to draw. Choose a lower resolution or fewer pages.`);
+  }
+};
+
+const renderChart = async (chart: StandaloneChart, pixelWidth: number): Promise<HTMLCanvasElement> => {
+  const scale = pixelWidth / chart.width;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(chart.width * scale);
+  canvas.height = Math.round(chart.height * scale);
+  checkCanvasSize(canvas.width, canvas.height);
+
+  const url = URL.createObjectURL(new Blob([chart.markup], { type: 'image/svg+xml' }));
+  try {
+    const image = await loadImage(url);
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = COLORS.background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+  return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("The image could not be encoded."))), type, quality);
+  });
+
+// --- PNG resolution ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Adds a pHYs chunk after the header so printing software knows the intended DPI
+const withResolution = (png: Uint8Array, dpi: number): Uint8Array => {
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMetre);
+  view.setUint32(12, pixelsPerMetre);
+  chunk[16] = 1; // unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  // Signature (8 bytes) + IHDR chunk (25 bytes)
+  const headerEnd = 33;
+  const result = new Uint8Array(png.length + chunk.length);
+  result.set(png.subarray(0, headerEnd));
+  result.set(chunk, headerEnd);
+  result.set(png.subarray(headerEnd), headerEnd + chunk.length);
+  return result;
+};
+
+// --- PDF poster ---
+
+interface PosterPage {
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  // Placement on the sheet in points
+  width: number;
+  height: number;
+  caption: string;
+}
+
+const escapePdfText = (text: string) => text.replace(/[\\()]/g, char => `\\${char}`);
+
+// Minimal PDF 1.4 writer: one JPEG image and a caption per page
+const buildPdf = (pages: PosterPage[], pageWidth: number, pageHeight: number): Blob => {
+  const parts: BlobPart[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    parts.push(part);
+    length += part.length; // strings here are plain ASCII
+  };
+  const object = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // 1: catalog, 2: page tree, 3: caption font, then page, contents and image for each page
+  const pageId = (i: number) => 4 + i * 3;
+  write('%PDF-1.4\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>');
+
+  pages.forEach((page, i) => {
+    const id = pageId(i);
+    const top = pageHeight - PAGE_MARGIN;
+    const content = [
+      `q ${page.width.toFixed(2)} 0 0 ${page.height.toFixed(2)} ${PAGE_MARGIN} ${(top - page.height).toFixed(2)} cm /Chart Do Q`,
+      `BT /F1 8 Tf ${PAGE_MARGIN} ${PAGE_MARGIN - FOOTER_HEIGHT / 2} Td (${escapePdfText(page.caption)}) Tj ET`
+    ].join('\n');
+    object(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /Font << /F1 3 0 R >> /XObject << /Chart ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`);
+    object(id + 1, `<< /Length ${content.length} >>`, new TextEncoder().encode(content));
+    object(id + 2, `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`, page.jpeg);
+  });
+
+  const objectCount = pageId(pages.length);
+  const xref = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
+
+const pageDimensions = ({ paper, landscape }: PosterOptions): [number, number] => {
+  const [width, height] = PAPER_SIZES[paper];
+  return landscape ? [height, width] : [width, height];
+};
+
+// Sheets needed for a poster of the given chart
+export const posterLayout = (size: ChartSize, options: PosterOptions) => {
+  const [pageWidth, pageHeight] = pageDimensions(options);
+  const tileWidth = pageWidth - PAGE_MARGIN * 2;
+  const tileHeight = pageHeight - PAGE_MARGIN * 2 - FOOTER_HEIGHT;
+  const columns = Math.max(1, Math.round(options.pagesAcross));
+  const posterHeight = size.height * (tileWidth * columns) / size.width;
+  return { pageWidth, pageHeight, tileWidth, tileHeight, columns, rows: Math.max(1, Math.ceil(posterHeight / tileHeight)) };
+};
+
+// --- Public API ---
+
+export const exportChartSvg = async (svg: SVGSVGElement, fileName: string) => {
+  const chart = await buildStandaloneChart(svg);
+  downloadFile(`${fileName}.svg`, chart.markup, 'image/svg+xml');
+};
+
+export const exportChartPng = async (svg: SVGSVGElement, fileName: string, dpi: number) => {
+  const chart = await buildStandaloneChart(svg);
+  const canvas = await renderChart(chart, Math.round(chart.width * dpi / CSS_DPI));
+  const png = new Uint8Array(await (await canvasToBlob(canvas, 'image/png')).arrayBuffer());
+  downloadFile(`${fileName}.png`, withResolution(png, dpi), 'image/png');
+};
+
+export const exportChartPdf = async (svg: SVGSVGElement, fileName: string, options: PosterOptions) => {
+  const chart = await buildStandaloneChart(svg);
+  const layout = posterLayout(chart, options);
+  const pixelsPerPoint = options.dpi / 72;
+  const tilePixelWidth = Math.round(layout.tileWidth * pixelsPerPoint);
+  const tilePixelHeight = Math.round(layout.tileHeight * pixelsPerPoint);
+  const canvas = await renderChart(chart, tilePixelWidth * layout.columns);
+  // Counted from the drawn canvas so rounding never leaves an empty last row
+  const rows = Math.ceil(canvas.height / tilePixelHeight);
+
+  const tile = document.createElement('canvas');
+  const context = tile.getContext('2d')!;
+  const pages: PosterPage[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < layout.columns; column++) {
+      // The last row is usually only partly filled; it is printed at the same scale, not stretched
+      const sx = column * tilePixelWidth;
+      const sy = row * tilePixelHeight;
+      const pixelHeight = Math.min(tilePixelHeight, canvas.height - sy);
+      tile.width = tilePixelWidth;
+      tile.height = pixelHeight;
+      context.fillStyle = COLORS.background;
+      context.fillRect(0, 0, tile.width, tile.height);
+      context.drawImage(canvas, sx, sy, tilePixelWidth, pixelHeight, 0, 0, tilePixelWidth, pixelHeight);
+
+      const jpeg = new Uint8Array(await (await canvasToBlob(tile, 'image/jpeg', 0.92)).arrayBuffer());
+      const caption = rows * layout.columns > 1
+        ? `${fileName} - row ${row + 1} of ${rows}, column ${column + 1} of ${layout.columns}`
+        : fileName;
+      pages.push({
+        jpeg,
+        pixelWidth: tilePixelWidth,
+        pixelHeight,
+        width: layout.tileWidth,
+        height: pixelHeight / pixelsPerPoint,
+        caption
+      });
+    }
+  }
+
+  downloadFile(`${fileName}.pdf`, buildPdf(pages, layout.pageWidth, layout.pageHeight), 'application/pdf');
+};
@@ -0,0 +1,453 @@
+import { FamilyGraph, Gender, LifeEvent, Partnership, Person } from '../types.ts';
+import { buildGraph } from '../utils/graph.ts';
+import { formatGedcomDate, parseGedcomDate } from '../utils/dates.ts';
+
+// GEDCOM 5.5.1 import/export.
+// INDI records map to people and FAM records to partnerships and parent links. Anything in a
+// GEDCOM file that the model cannot express is collected as an issue instead of being dropped silently.
+
+export interface GedcomIssue {
+  line?: number;
+  xref?: string;
+  message: string;
+}
+
+export interface GedcomImportResult {
+  graph: FamilyGraph;
+  issues: GedcomIssue[];
+}
+
+interface GedcomLine {
+  level: number;
+  xref?: string;
+  tag: string;
+  value: string;
+  lineNumber: number;
+}
+
+// A record (or sub-structure) with its nested lines
+interface GedcomNode extends GedcomLine {
+  children: GedcomNode[];
+}
+
+interface Individual {
+  xref: string;
+  name: string;
+  gender?: Gender;
+  birth?: LifeEvent;
+  death?: LifeEvent;
+  notes?: string;
+  imageUrl?: string;
+  relationship?: string;
+  famc: string[];
+  fams: string[];
+}
+
+interface Family {
+  xref: string;
+  husband?: string;
+  wife?: string;
+  children: string[];
+  marriage?: LifeEvent;
+  divorce?: LifeEvent;
+}
+
+const DEFAULT_IMAGE = "https://picsum.photos/200";
+
+const LINE_PATTERN = /^\s*(\d+)\s+(?:(@[^@]+@)\s+)?(\S+)(?:\s(.*))?$/;
+
+// Tags understood on each record type; anything else is reported
+const KNOWN_INDI_TAGS = new Set(['NAME', 'SEX', 'BIRT', 'DEAT', 'NOTE', 'FAMC', 'FAMS', 'OBJE', '_REL', 'CHAN']);
+const KNOWN_FAM_TAGS = new Set(['HUSB', 'WIFE', 'CHIL', 'MARR', 'DIV', 'CHAN']);
+const IGNORED_RECORDS = new Set(['HEAD', 'TRLR', 'SUBM']);
+
+// --- Parsing ---
+
+const parseLines = (text: string, issues: GedcomIssue[]): GedcomLine[] => {
+  const lines: GedcomLine[] = [];
+  text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/).forEach((raw, index) => {
+    if (raw.trim() === '') return;
+    const match = LINE_PATTERN.exec(raw);
+    if (!match) {
+      issues.push({ line: index + 1, message: `Unreadable line: "${raw.trim()}"` });
+      return;
+    }
+    lines.push({
+      level: parseInt(match[1], 10),
+      xref: match[2],
+      tag: match[3].toUpperCase(),
+      value: match[4] ?? '',
+      lineNumber: index + 1
+    });
+  });
+  return lines;
+};
+
+const buildNodes = (lines: GedcomLine[]): GedcomNode[] => {
+  const records: GedcomNode[] = [];
+  const stack: GedcomNode[] = [];
+
+  lines.forEach(line => {
+    const node: GedcomNode = { ...line, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].level >= node.level) {
+      stack.pop();
+    }
+    if (stack.length === 0) {
+      records.push(node);
+    } else {
+      const parent = stack[stack.length - 1];
+      // CONT/CONC continue the parent's value rather than being sub-structures
+      if (node.tag === 'CONT') {
+        parent.value += `\n${node.value}`;
+        return;
+      }
+      if (node.tag === 'CONC') {
+        parent.value += node.value;
+        return;
+      }
+      parent.children.push(node);
+    }
+    stack.push(node);
+  });
+
+  return records;
+};
+
+const child = (node: GedcomNode, tag: string) => node.children.find(c => c.tag === tag);
+
+// "John /Smith/" -> "John Smith"
+const cleanName = (value: string) => value.replace(/\//g, ' ').replace(/\s+/g, ' ').trim();
+
+// Reads the DATE and PLAC of a BIRT/DEAT/MARR/DIV structure
+const readEvent = (node: GedcomNode, xref: string, issues: GedcomIssue[]): LifeEvent => {
+  const event: LifeEvent = {};
+  const date = child(node, 'DATE');
+  if (date) {
+    const parsed = parseGedcomDate(date.value);
+    if (parsed) event.date = parsed;
+    else issues.push({ line: date.lineNumber, xref, message: `Date "${date.value}" could not be read and was skipped.` });
+  }
+  const place = child(node, 'PLAC');
+  if (place && place.value.trim()) event.place = place.value.trim();
+  return event;
+};
+
+const GENDERS: Record<string, Gender> = { M: 'male', F: 'female', U: 'unknown' };
+
+const readIndividual = (record: GedcomNode, issues: GedcomIssue[]): Individual => {
+  const individual: Individual = { xref: record.xref!, name: '', famc: [], fams: [] };
+
+  record.children.forEach(node => {
+    switch (node.tag) {
+      case 'NAME':
+        if (!individual.name) individual.name = cleanName(node.value);
+        else issues.push({ line: node.lineNumber, xref: record.xref, message: `Additional name "${cleanName(node.value)}" was not imported.` });
+        break;
+      case 'BIRT':
+        individual.birth = readEvent(node, record.xref!, issues);
+        break;
+      case 'DEAT':
+        individual.death = readEvent(node, record.xref!, issues);
+        break;
+      case 'SEX':
+        individual.gender = GENDERS[node.value.trim().toUpperCase()] ?? 'unknown';
+        break;
+      case 'NOTE':
+        // Pointers to shared NOTE records (@N1@) are not followed
+        if (/^@[^@]+@$/.test(node.value.trim())) {
+          issues.push({ line: node.lineNumber, xref: record.xref, message: `Linked note ${node.value.trim()} is not supported and was skipped.` });
+        } else {
+          individual.notes = individual.notes ? `${individual.notes}\n\n${node.value}` : node.value;
+        }
+        break;
+      case 'FAMC':
+        individual.famc.push(node.value);
+        break;
+      case 'FAMS':
+        individual.fams.push(node.value);
+        break;
+      case 'OBJE': {
+        const file = child(node, 'FILE');
+        if (file && !individual.imageUrl) individual.imageUrl = file.value;
+        break;
+      }
+      case '_REL':
+        individual.relationship = node.value;
+        break;
+      default:
+        if (!KNOWN_INDI_TAGS.has(node.tag)) {
+          issues.push({ line: node.lineNumber, xref: record.xref, message: `Tag ${node.tag} is not supported and was skipped.` });
+        }
+    }
+  });
+
+  return individual;
+};
+
+const readFamily = (record: GedcomNode, issues: GedcomIssue[]): Family => {
+  const family: Family = { xref: record.xref!, children: [] };
+
+  record.children.forEach(node => {
+    switch (node.tag) {
+      case 'HUSB':
+        family.husband = node.value;
+        break;
+      case 'WIFE':
+        family.wife = node.value;
+        break;
+      case 'CHIL':
+        family.children.push(node.value);
+        break;
+      case 'MARR':
+        family.marriage = readEvent(node, record.xref!, issues);
+        break;
+      case 'DIV':
+        family.divorce = readEvent(node, record.xref!, issues);
+        break;
+      default:
+        if (!KNOWN_FAM_TAGS.has(node.tag)) {
+          issues.push({ line: node.lineNumber, xref: record.xref, message: `Tag ${node.tag} is not supported and was skipped.` });
+        }
+    }
+  });
+
+  return family;
+};
+
+export const parseGedcom = (text: string): GedcomImportResult => {
+  const issues: GedcomIssue[] = [];
+  const records = buildNodes(parseLines(text, issues));
+
+  const individuals = new Map<string, Individual>();
+  const families = new Map<string, Family>();
+
+  records.forEach(record => {
+    if (record.tag === 'INDI' && record.xref) {
+      individuals.set(record.xref, readIndividual(record, issues));
+    } else if (record.tag === 'FAM' && record.xref) {
+      families.set(record.xref, readFamily(record, issues));
+    } else if (!IGNORED_RECORDS.has(record.tag)) {
+      issues.push({ line: record.lineNumber, xref: record.xref, message: `${record.tag} records are not supported and were skipped.` });
+    }
+  });
+
+  if (individuals.size === 0) {
+    throw new Error("The file does not contain any individuals (INDI records).");
+  }
+
+  // The first individual in the file is treated as the home person, as most genealogy tools export it first
+  const rootXref = individuals.keys().next().value as string;
+  const idFor = (xref: string) => xref.replace(/@/g, '');
+
+  const labels = new Map<string, string>();
+  const parentIds: Record<string, string[]> = {};
+  const partnerships: Partnership[] = [];
+
+  families.forEach(family => {
+    const partners = [family.husband, family.wife].filter((xref): xref is string => {
+      if (!xref) return false;
+      if (!individuals.has(xref)) {
+        issues.push({ xref: family.xref, message: `Partner ${xref} does not exist.` });
+        return false;
+      }
+      return true;
+    });
+
+    if (partners.length === 2) {
+      partnerships.push({
+        id: idFor(family.xref),
+        partnerIds: [idFor(partners[0]), idFor(partners[1])],
+        marriage: family.marriage,
+        divorce: family.divorce
+      });
+    }
+    // Default labels describe each person's role in the family they head
+    if (family.husband) labels.set(family.husband, family.children.length > 0 ? "Father" : "Husband");
+    if (family.wife) labels.set(family.wife, family.children.length > 0 ? "Mother" : "Wife");
+
+    family.children.forEach(childXref => {
+      const child = individuals.get(childXref);
+      if (!child) {
+        issues.push({ xref: family.xref, message: `Child ${childXref} does not exist.` });
+        return;
+      }
+      const childId = idFor(childXref);
+      if (parentIds[childId]) {
+        issues.push({ xref: childXref, message: `${child.name || childXref} belongs to more than one parent family; only the first was imported.` });
+        return;
+      }
+      if (partners.length > 0) parentIds[childId] = partners.map(idFor);
+    });
+  });
+
+  // FAMC/FAMS pointers should mirror the FAM records; flag the ones that point nowhere
+  individuals.forEach(individual => {
+    [...individual.famc, ...individual.fams].forEach(famXref => {
+      if (!families.has(famXref)) {
+        issues.push({ xref: individual.xref, message: `Family ${famXref} does not exist.` });
+      }
+    });
+  });
+
+  const persons: Person[] = Array.from(individuals.values()).map(individual => ({
+    id: idFor(individual.xref),
+    name: individual.name || "Unknown",
+    gender: individual.gender,
+    birth: individual.birth,
+    death: individual.death,
+    notes: individual.notes,
+    imageUrl: individual.imageUrl || DEFAULT_IMAGE,
+    relationship: individual.xref === rootXref ? individual.relationship : (individual.relationship ?? labels.get(individual.xref))
+  }));
+
+  return {
+    graph: buildGraph({ rootId: idFor(rootXref), persons, parentIds, partnerships }),
+    issues
+  };
+};
+
+// --- Serializing ---
+
+const FEMALE_LABELS = /mother|grandmother|wife|daughter|sister|aunt|niece/i;
+const MALE_LABELS = /father|grandfather|husband|son|brother|uncle|nephew/i;
+
+// Sex from the recorded gender, or a best-effort guess from the free-text relationship label
+const guessSex = (person: Person): 'M' | 'F' | undefined => {
+  if (person.gender === 'male') return 'M';
+  if (person.gender === 'female') return 'F';
+  if (!person.relationship) return undefined;
+  if (FEMALE_LABELS.test(person.relationship)) return 'F';
+  if (MALE_LABELS.test(person.relationship)) return 'M';
+  return undefined;
+};
+
+// Splits the last word off as the surname: "Eleanor Rigby" -> "Eleanor /Rigby/"
+const formatName = (name: string) => {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length < 2) return name.trim();
+  const surname = parts.pop();
+  return `${parts.join(' ')} /${surname}/`;
+};
+
+// GEDCOM 5.5.1 lines are at most 255 characters, so long values go on in CONC lines. Splits
+// avoid spaces, which some readers trim from the ends of a line.
+const MAX_VALUE_LENGTH = 200;
+
+const splitValue = (value: string): string[] => {
+  const chunks: string[] = [];
+  let rest = value;
+  while (rest.length > MAX_VALUE_LENGTH) {
+    let cut = MAX_VALUE_LENGTH;
+    while (cut > 1 && (rest[cut] === ' ' || rest[cut - 1] === ' ')) cut--;
+    chunks.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  return [...chunks, rest];
+};
+
+// Writes free text at level 1: new lines become CONT lines, long lines are continued with CONC
+const writeText = (lines: string[], tag: string, text: string) => {
+  text.split('\n').forEach((paragraph, i) => {
+    const [first, ...rest] = splitValue(paragraph);
+    lines.push(i === 0 ? `1 ${tag} ${first}` : `2 CONT ${first}`);
+    rest.forEach(chunk => lines.push(`2 CONC ${chunk}`));
+  });
+};
+
+// Writes an event at level 1 with its DATE and PLAC; a bare "1 DEAT Y" records an event with no known details
+const writeEvent = (lines: string[], tag: string, event?: LifeEvent) => {
+  if (!event) return;
+  const date = formatGedcomDate(event.date);
+  lines.push(date || event.place ? `1 ${tag}` : `1 ${tag} Y`);
+  if (date) lines.push(`2 DATE ${date}`);
+  if (event.place) lines.push(`2 PLAC ${event.place}`);
+};
+
+export const serializeGedcom = (graph: FamilyGraph): string => {
+  // The root goes first so that importing the file again opens the same person
+  const persons = [graph.persons[graph.rootId], ...Object.values(graph.persons).filter(p => p.id !== graph.rootId)];
+  const xrefs = new Map(persons.map((p, i) => [p.id, `@I${i + 1}@`]));
+  const famc = new Map<string, string>();
+  const fams = new Map<string, string[]>();
+  const familyLines: string[] = [];
+  let familyCount = 0;
+
+  const addFamily = (partners: Person[], children: string[], partnership?: Partnership) => {
+    const famXref = `@F${++familyCount}@`;
+    familyLines.push(`0 ${famXref} FAM`);
+
+    // Assign HUSB/WIFE from the guessed sex, falling back to input order
+    const [first, second] = partners;
+    let husband: Person | undefined = first;
+    let wife: Person | undefined = second;
+    if ((first && guessSex(first) === 'F') || (second && guessSex(second) === 'M')) {
+      husband = second;
+      wife = first;
+    }
+    if (husband) familyLines.push(`1 HUSB ${xrefs.get(husband.id)}`);
+    if (wife) familyLines.push(`1 WIFE ${xrefs.get(wife.id)}`);
+    partners.forEach(p => fams.set(p.id, [...(fams.get(p.id) || []), famXref]));
+    writeEvent(familyLines, 'MARR', partnership?.marriage);
+    writeEvent(familyLines, 'DIV', partnership?.divorce);
+
+    children.forEach(childId => {
+      familyLines.push(`1 CHIL ${xrefs.get(childId)}`);
+      famc.set(childId, famXref);
+    });
+  };
+
+  // Group children by their set of parents; a couple's children share one FAM with their partnership
+  const pairKey = (ids: string[]) => [...ids].sort().join('|');
+  const childrenByParents = new Map<string, string[]>();
+  Object.entries(graph.parentIds).forEach(([childId, parentIds]) => {
+    if (parentIds.length === 0 || !graph.persons[childId]) return;
+    const key = pairKey(parentIds.slice(0, 2));
+    childrenByParents.set(key, [...(childrenByParents.get(key) || []), childId]);
+  });
+
+  Object.values(graph.partnerships).forEach(partnership => {
+    const key = pairKey(partnership.partnerIds);
+    addFamily(partnership.partnerIds.map(id => graph.persons[id]), childrenByParents.get(key) || [], partnership);
+    childrenByParents.delete(key);
+  });
+  childrenByParents.forEach((children, key) => {
+    addFamily(key.split('|').map(id => graph.persons[id]), children);
+  });
+
+  const lines: string[] = [
+    '0 HEAD',
+    '1 SOUR LEGACY_TREE',
+    '2 NAME Legacy Tree',
+    '1 SUBM @U1@',
+    '1 GEDC',
+    '2 VERS 5.5.1',
+    '2 FORM LINEAGE-LINKED',
+    '1 CHAR UTF-8',
+    '0 @U1@ SUBM',
+    '1 NAME Legacy Tree'
+  ];
+
+  persons.forEach(person => {
+    lines.push(`0 ${xrefs.get(person.id)} INDI`);
+    lines.push(`1 NAME ${formatName(person.name)}`);
+    const sex = guessSex(person);
+    if (sex) lines.push(`1 SEX ${sex}`);
+    writeEvent(lines, 'BIRT', person.birth);
+    writeEvent(lines, 'DEAT', person.death);
+    if (person.relationship) lines.push(`1 _REL ${person.relationship}`);
+    if (person.notes) writeText(lines, 'NOTE', person.notes);
+    // Embedded data URLs are far beyond GEDCOM line limits, so only linked images are exported
+    if (/^https?:\/\//.test(person.imageUrl)) {
+      lines.push('1 OBJE');
+      lines.push(`2 FILE ${person.imageUrl}`);
+      lines.push('3 FORM jpg');
+    }
+    const parentFamily = famc.get(person.id);
+    if (parentFamily) lines.push(`1 FAMC ${parentFamily}`);
+    (fams.get(person.id) || []).forEach(f => lines.push(`1 FAMS ${f}`));
+  });
+
+  lines.push(...familyLines);
+  lines.push('0 TRLR');
+  return lines.join('\n') + '\n';
+};
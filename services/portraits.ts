@@ -0,0 +1,43 @@
+// Lazy portrait loading for large charts. Pictures are only requested for people actually drawn,
+// a few at a time, newest request first, so panning across a big tree fetches what is on screen
+// before what has already scrolled away.
+
+const MAX_CONCURRENT = 6;
+
+const loaded = new Set<string>();
+const requests = new Map<string, Promise<void>>();
+const queue: (() => void)[] = [];
+let active = 0;
+
+const startNext = () => {
+  while (active < MAX_CONCURRENT && queue.length > 0) {
+    active++;
+    queue.pop()!();
+  }
+};
+
+export const isPortraitLoaded = (url: string) => !url || url.startsWith('data:') || loaded.has(url);
+
+// Resolves once the browser has the picture cached. Failed pictures resolve too, so the <image>
+// falls back to the browser's own broken-image handling.
+export const loadPortrait = (url: string): Promise<void> => {
+  if (isPortraitLoaded(url)) return Promise.resolve();
+  let request = requests.get(url);
+  if (!request) {
+    request = new Promise<void>(resolve => {
+      queue.push(() => {
+        const image = new Image();
+        image.onload = image.onerror = () => {
+          loaded.add(url);
+          active--;
+          resolve();
+          startNext();
+        };
+        image.src = url;
+      });
+      startNext();
+    });
+    requests.set(url, request);
+  }
+  return request;
+};
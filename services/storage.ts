@@ -0,0 +1,190 @@
+import { ChartLayout, ChartViewState, FamilyGraph, FamilyMember, TreeViewMode } from '../types.ts';
+import { buildGraph, graphFromTree, toSnapshot, GraphSnapshot } from '../utils/graph.ts';
+import { upgradeLegacyPerson } from '../utils/dates.ts';
+
+// Bump SCHEMA_VERSION whenever the persisted shape of the tree changes, and register
+// a migration that upgrades a save from the previous version.
+// v1: nested FamilyMember tree
+// v2: GraphSnapshot (flat persons + relationships)
+// v3: free-text `year` replaced by structured birth/death events
+export const SCHEMA_VERSION = 3;
+
+const DB_NAME = 'legacy-tree';
+// v2: adds the workspace store listing the trees
+const DB_VERSION = 2;
+const STORE_NAME = 'trees';
+const WORKSPACE_STORE_NAME = 'workspace';
+const WORKSPACE_KEY = 'workspace';
+// The single tree saved before there was a workspace; it becomes the workspace's first tree
+const LEGACY_TREE_KEY = 'current';
+
+interface StoredTree {
+  key: string;
+  schemaVersion: number;
+  savedAt: string;
+  data: unknown;
+}
+
+// How a tree was last shown, restored when switching back to it
+export interface TreeView {
+  layout: ChartLayout;
+  mode: TreeViewMode;
+  focusId: string | null;
+  generations: number;
+  chart?: ChartViewState;
+}
+
+export interface TreeInfo {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  personCount: number;
+  view?: TreeView;
+}
+
+// The trees kept in this browser and which one is open
+export interface Workspace {
+  activeTreeId: string;
+  trees: TreeInfo[];
+}
+
+interface StoredWorkspace extends Workspace {
+  key: string;
+}
+
+// Each entry upgrades data saved at version `n` to version `n + 1`.
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  1: (tree) => toSnapshot(graphFromTree(tree as FamilyMember)),
+  2: (data) => {
+    const snapshot = data as GraphSnapshot;
+    return { ...snapshot, persons: snapshot.persons.map(upgradeLegacyPerson) };
+  }
+};
+
+export const migrate = (data: unknown, fromVersion: number): FamilyGraph => {
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new Error(`Saved tree uses schema v${fromVersion}, but this app only understands up to v${SCHEMA_VERSION}.`);
+  }
+
+  let current = data;
+  for (let v = fromVersion; v < SCHEMA_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) {
+      throw new Error(`No migration registered from schema v${v} to v${v + 1}.`);
+    }
+    current = step(current);
+  }
+  return buildGraph(current as GraphSnapshot);
+};
+
+// --- IndexedDB plumbing ---
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Writes are only done once their transaction commits; it can still abort after the request succeeded
+const transactionToPromise = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('The transaction was aborted.'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(WORKSPACE_STORE_NAME)) {
+          db.createObjectStore(WORKSPACE_STORE_NAME, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry on the next call if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// --- Public API ---
+
+// Returns a saved tree (migrated to the current schema), or null if there is no tree with that id.
+export const loadTree = async (id: string): Promise<FamilyGraph | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const record = await requestToPromise<StoredTree | undefined>(tx.objectStore(STORE_NAME).get(id));
+  if (!record) return null;
+  return migrate(record.data, record.schemaVersion);
+};
+
+export const saveTree = async (id: string, graph: FamilyGraph): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const record: StoredTree = {
+    key: id,
+    schemaVersion: SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    // Only the plain parts are stored; the edge indexes are rebuilt on load
+    data: toSnapshot(graph)
+  };
+  tx.objectStore(STORE_NAME).put(record);
+  await transactionToPromise(tx);
+};
+
+export const deleteTree = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  tx.objectStore(STORE_NAME).delete(id);
+  await transactionToPromise(tx);
+};
+
+// Describes a tree for the workspace list, named after its root person unless a name is given
+export const describeTree = (id: string, graph: FamilyGraph, name?: string): TreeInfo => {
+  const now = new Date().toISOString();
+  return {
+    id,
+    name: name || `${graph.persons[graph.rootId]?.name || 'Untitled'}'s Tree`,
+    createdAt: now,
+    updatedAt: now,
+    personCount: Object.keys(graph.persons).length
+  };
+};
+
+// Returns the list of trees, or null on first use. A tree saved before workspaces existed is
+// listed as the only tree.
+export const loadWorkspace = async (): Promise<Workspace | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(WORKSPACE_STORE_NAME, 'readonly');
+  const record = await requestToPromise<StoredWorkspace | undefined>(tx.objectStore(WORKSPACE_STORE_NAME).get(WORKSPACE_KEY));
+  if (record) {
+    const { key: _key, ...workspace } = record;
+    return workspace;
+  }
+  const legacyTree = await loadTree(LEGACY_TREE_KEY);
+  if (!legacyTree) return null;
+  return { activeTreeId: LEGACY_TREE_KEY, trees: [describeTree(LEGACY_TREE_KEY, legacyTree)] };
+};
+
+export const saveWorkspace = async (workspace: Workspace): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(WORKSPACE_STORE_NAME, 'readwrite');
+  const record: StoredWorkspace = { key: WORKSPACE_KEY, ...workspace };
+  tx.objectStore(WORKSPACE_STORE_NAME).put(record);
+  await transactionToPromise(tx);
+};
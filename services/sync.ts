@@ -0,0 +1,69 @@
+import { Collaborator, Presence } from '../types.ts';
+import { GraphOperation } from '../utils/operations.ts';
+
+// WebSocket connection to a sync server shared by everyone editing the same tree. The server keeps
+// the latest operation on each register of each room, hands them to whoever joins, and passes new
+// operations and presence on to the rest of the room. `npm run sync-server` starts a local one.
+
+export const DEFAULT_SYNC_URL = 'ws://localhost:8787';
+
+export type ClientMessage =
+  | { type: 'join'; room: string; collaborator: Collaborator }
+  | { type: 'ops'; ops: GraphOperation[] }
+  | { type: 'presence'; presence: Presence };
+
+export interface PeerState {
+  collaborator: Collaborator;
+  presence: Presence;
+}
+
+export type ServerMessage =
+  // Sent once after joining: the room's tree and who else is in it
+  | { type: 'welcome'; ops: GraphOperation[]; peers: PeerState[] }
+  | { type: 'ops'; ops: GraphOperation[] }
+  | { type: 'presence'; collaborator: Collaborator; presence: Presence }
+  | { type: 'leave'; collaboratorId: string };
+
+export interface SyncHandlers {
+  onMessage: (message: ServerMessage) => void;
+  // The connection could not be made or was lost; not called after `close`
+  onDisconnect: (reason: string) => void;
+}
+
+export interface SyncConnection {
+  sendOps: (ops: GraphOperation[]) => void;
+  sendPresence: (presence: Presence) => void;
+  close: () => void;
+}
+
+export const connectSync = (url: string, room: string, collaborator: Collaborator, { onMessage, onDisconnect }: SyncHandlers): SyncConnection => {
+  const socket = new WebSocket(url);
+  let isClosed = false;
+
+  const send = (message: ClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  socket.addEventListener('open', () => send({ type: 'join', room, collaborator }));
+  socket.addEventListener('message', (event) => {
+    try {
+      onMessage(JSON.parse(event.data));
+    } catch (err) {
+      console.error("Could not read a message from the sync server.", err);
+    }
+  });
+  socket.addEventListener('close', (event) => {
+    if (isClosed) return;
+    isClosed = true;
+    onDisconnect(event.reason || `Could not reach ${url}.`);
+  });
+
+  return {
+    sendOps: (ops) => send({ type: 'ops', ops }),
+    sendPresence: (presence) => send({ type: 'presence', presence }),
+    close: () => {
+      isClosed = true;
+      socket.close();
+    }
+  };
+};
@@ -1,17 +1,149 @@
+// Qualifiers for uncertain dates: about, before, after, estimated, calculated
+export type DateQualifier = 'abt' | 'bef' | 'aft' | 'est' | 'cal';
+
+// A date where any part may be unknown, e.g. just a year or "abt. 1925"
+export interface PartialDate {
+  qualifier?: DateQualifier;
+  year?: number;
+  month?: number; // 1-12
+  day?: number;
+}
+
+export interface LifeEvent {
+  date?: PartialDate;
+  place?: string;
+}
+
+export type Gender = 'male' | 'female' | 'unknown';
+
+// Siblings are derived from shared parents: full siblings share all of them, half siblings only some
+export type SiblingKind = 'full' | 'half';
+
+export type MediaKind = 'photo' | 'document' | 'audio';
+
+export type PortraitFormat = 'image/jpeg' | 'image/webp' | 'image/png';
+export type PortraitTone = 'none' | 'grayscale' | 'sepia';
+
+// How a portrait was cut from its photo, kept so the crop can be changed later
+export interface PortraitCrop {
+  zoom: number;
+  // Shift of the photo's center from the crop's center, as a fraction of the crop's width
+  offsetX: number;
+  offsetY: number;
+  rotation: number; // quarter turns in degrees: 0, 90, 180 or 270
+  straighten: number; // fine rotation in degrees, -45 to 45
+  brightness: number; // percent, 100 is unchanged
+  contrast: number; // percent, 100 is unchanged
+  tone: PortraitTone;
+  outputSize: number; // width and height in pixels
+  format: PortraitFormat;
+}
+
+// A photo, scanned document or sound recording kept with a person. The file itself is stored as a
+// data URL, so it is saved and exported along with the tree.
+export interface MediaItem {
+  id: string;
+  kind: MediaKind;
+  src: string;
+  // MIME type and name of the uploaded file
+  mimeType: string;
+  fileName?: string;
+  caption?: string;
+  date?: PartialDate;
+  // Photos: the square crop shown in the tree while this photo is the portrait, and how it was made
+  portrait?: string;
+  crop?: PortraitCrop;
+}
+
 export interface FamilyMember {
   id: string;
   name: string;
-  year: string;
   imageUrl: string;
   relationship?: string;
+  gender?: Gender;
+  birth?: LifeEvent;
+  death?: LifeEvent;
+  notes?: string;
+  media?: MediaItem[];
+  // The photo in `media` the portrait (imageUrl) was cropped from
+  portraitMediaId?: string;
   // In an ancestor tree model, "children" in the data structure actually represents parents in the real world
   // because we traverse upwards from the root individual.
   parents?: FamilyMember[];
-  spouse?: FamilyMember;
+  // Real-world children, only filled in for the descendant chart
+  children?: FamilyMember[];
+  // Everyone this member has a partnership with, in the order the partnerships were added
+  spouses?: FamilyMember[];
+  // Set on spouses: the partnership with the member they are drawn beside
+  union?: Partnership;
+  // Brothers and sisters drawn beside the member (their own relatives are not included)
+  siblings?: FamilyMember[];
+  // Set on siblings: how they are related to the member they are drawn beside
+  siblingKind?: SiblingKind;
+}
+
+// Which direction the tree is drawn from the focus person
+export type TreeViewMode = 'ancestors' | 'descendants';
+
+// How the chart is drawn: the organic tree, a horizontal pedigree of boxes or a radial fan of ancestors
+export type ChartLayout = 'tree' | 'pedigree' | 'fan';
+
+// Where the tree chart was left: its zoom and pan, and the branches opened or folded on it
+export interface ChartViewState {
+  transform: { x: number; y: number; k: number };
+  expandedSpouseIds: string[];
+  collapsedIds: string[];
 }
 
-// D3 Hierarchy Node uses 'children' property by default, so we map parents to children for D3
-export interface D3Member extends Omit<FamilyMember, 'parents' | 'spouse'> {
+// Someone else editing the same tree, as shown to the others
+export interface Collaborator {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// Where a collaborator is in the tree: the person their chart is centered on and the one they are editing
+export interface Presence {
+  viewingId?: string;
+  editingId?: string;
+}
+
+// A collaborator drawn on a person's node
+export interface PresenceMarker {
+  name: string;
+  color: string;
+  editing: boolean;
+}
+
+// D3 Hierarchy Node uses 'children' property by default, so we map parents (or children, in the
+// descendant chart) to children for D3
+export interface D3Member extends Omit<FamilyMember, 'parents' | 'children' | 'spouses' | 'siblings'> {
   children?: D3Member[];
-  spouse?: D3Member;
-}
\ No newline at end of file
+  spouses?: D3Member[];
+  siblings?: D3Member[];
+}
+
+// --- Normalized store ---
+// The source of truth is a flat graph of people and relationships. FamilyMember hierarchies are
+// derived from it by the selectors in utils/graph.ts, so the same person can appear in several
+// places of a rendered tree (pedigree collapse) while existing only once in the data.
+
+export type Person = Omit<FamilyMember, 'parents' | 'children' | 'spouses' | 'union' | 'siblings' | 'siblingKind'>;
+
+// A marriage or other union. Its children are the people whose parents are exactly its two partners.
+export interface Partnership {
+  id: string;
+  partnerIds: [string, string];
+  marriage?: LifeEvent;
+  divorce?: LifeEvent;
+}
+
+export interface FamilyGraph {
+  rootId: string;
+  persons: Record<string, Person>;
+  partnerships: Record<string, Partnership>;
+  // Edge indexes, kept in sync by the mutations in utils/graph.ts
+  parentIds: Record<string, string[]>;      // child id -> parent ids
+  childIds: Record<string, string[]>;       // parent id -> child ids
+  partnershipIds: Record<string, string[]>; // person id -> partnership ids
+}
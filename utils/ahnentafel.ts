@@ -0,0 +1,42 @@
+import { FamilyMember } from '../types.ts';
+
+// Ahnentafel numbering for the fixed-position ancestor charts: the focus person is 1 and the
+// parents of person n are 2n (father) and 2n + 1 (mother), so generation g holds 2^g slots
+// numbered 2^g to 2^(g+1) - 1 whether or not anyone is known for them.
+
+export const generationOf = (slot: number) => Math.floor(Math.log2(slot));
+
+// The child a slot belongs to
+export const childSlotOf = (slot: number) => Math.floor(slot / 2);
+
+// Father first and mother second. Parents of unrecorded gender fill whichever place is free; a third
+// or later parent has no slot and is left out of these charts.
+const orderParents = (member: FamilyMember): [FamilyMember | undefined, FamilyMember | undefined] => {
+  const parents = member.parents || [];
+  let father = parents.find(p => p.gender === 'male');
+  let mother = parents.find(p => p.gender === 'female' && p !== father);
+  parents.forEach(p => {
+    if (p === father || p === mother) return;
+    if (!father) father = p;
+    else if (!mother) mother = p;
+  });
+  return [father, mother];
+};
+
+// The known people of the first `generations` generations, by slot number
+export const ahnentafelSlots = (root: FamilyMember, generations: number): Map<number, FamilyMember> => {
+  const slots = new Map<number, FamilyMember>();
+  const visit = (member: FamilyMember, slot: number) => {
+    slots.set(slot, member);
+    if (generationOf(slot) + 1 >= generations) return;
+    orderParents(member).forEach((parent, i) => {
+      if (parent) visit(parent, slot * 2 + i);
+    });
+  };
+  visit(root, 1);
+  return slots;
+};
+
+// Father's side (slot 2) or mother's side (slot 3) of the focus person's ancestry
+export const lineOf = (slot: number): 'paternal' | 'maternal' | null =>
+  slot < 2 ? null : slot >> (generationOf(slot) - 1) === 2 ? 'paternal' : 'maternal';
@@ -0,0 +1,100 @@
+import { FamilyGraph, Gender, Partnership, Person } from '../types.ts';
+import { buildGraph } from './graph.ts';
+
+// Synthetic family of about `size` people for measuring chart performance on large trees (open the
+// app with `?benchmark=5000`). The focus person has a full ancestry going back as many generations as
+// fit in about half the size, a third of the ancestors with brothers and sisters, and the rest are
+// married descendants. The output only depends on `size`, so runs can be compared.
+
+const GIVEN_NAMES: Record<'male' | 'female', string[]> = {
+  male: ['John', 'William', 'Thomas', 'James', 'George', 'Henry', 'Charles', 'Edward', 'Robert', 'Arthur'],
+  female: ['Mary', 'Elizabeth', 'Anne', 'Margaret', 'Sarah', 'Jane', 'Alice', 'Emily', 'Grace', 'Ellen']
+};
+const SURNAMES = ['Perera', 'Silva', 'Fernando', 'Jayawardena', 'Wickramasinghe', 'Gunawardena', 'Dias', 'Mendis'];
+
+const ROOT_BIRTH_YEAR = 1800;
+const GENERATION_YEARS = 28;
+const CHILDREN_PER_COUPLE = 3;
+
+export const createSyntheticGraph = (size: number): FamilyGraph => {
+  const persons: Person[] = [];
+  const parentIds: Record<string, string[]> = {};
+  const partnerships: Partnership[] = [];
+
+  const addPerson = (gender: Gender, birthYear: number, surname: string): string => {
+    const n = persons.length;
+    const id = `bench-${n}`;
+    const given = GIVEN_NAMES[gender === 'female' ? 'female' : 'male'];
+    persons.push({
+      id,
+      name: `${given[n % given.length]} ${surname}`,
+      gender,
+      imageUrl: `https://picsum.photos/id/${n % 1000}/200/200`,
+      birth: { date: { year: birthYear } },
+      death: birthYear + 70 < 2020 ? { date: { year: birthYear + 70 } } : undefined
+    });
+    return id;
+  };
+  const marry = (a: string, b: string) => {
+    partnerships.push({ id: `union-${a}-${b}`, partnerIds: [a, b] });
+  };
+  const surnameAt = (n: number) => SURNAMES[n % SURNAMES.length];
+
+  const rootId = addPerson('male', ROOT_BIRTH_YEAR, SURNAMES[0]);
+
+  // Ancestors, a generation at a time, while the next one still fits in half the budget
+  let generation = [rootId];
+  let depth = 0;
+  while (persons.length + generation.length * 3 <= size / 2) {
+    depth++;
+    const birthYear = ROOT_BIRTH_YEAR - depth * GENERATION_YEARS;
+    const next: string[] = [];
+    generation.forEach((childId, i) => {
+      const father = addPerson('male', birthYear, surnameAt(i + depth));
+      const mother = addPerson('female', birthYear + 2, surnameAt(i + depth + 3));
+      marry(father, mother);
+      parentIds[childId] = [father, mother];
+      next.push(father, mother);
+      // One or two brothers and sisters for a third of the ancestors
+      if (i % 3 === 0) {
+        for (let s = 0; s <= i % 2; s++) {
+          const sibling = addPerson(s === 0 ? 'female' : 'male', birthYear + GENERATION_YEARS + 2 + s * 2, surnameAt(i + depth));
+          parentIds[sibling] = [father, mother];
+        }
+      }
+    });
+    generation = next;
+  }
+
+  // Descendants, breadth first, each with a spouse, until the size is reached
+  let couples: [string, number][] = [[rootId, ROOT_BIRTH_YEAR]];
+  while (persons.length < size && couples.length > 0) {
+    const next: [string, number][] = [];
+    for (const [personId, birthYear] of couples) {
+      if (persons.length + 2 > size) break;
+      const spouse = addPerson('female', birthYear + 2, surnameAt(persons.length));
+      marry(personId, spouse);
+      for (let c = 0; c < CHILDREN_PER_COUPLE && persons.length < size; c++) {
+        const childYear = birthYear + GENERATION_YEARS + c * 2;
+        const child = addPerson(c % 2 === 0 ? 'male' : 'female', childYear, SURNAMES[0]);
+        parentIds[child] = [personId, spouse];
+        next.push([child, childYear]);
+      }
+    }
+    couples = next;
+  }
+
+  return buildGraph({ rootId, persons, parentIds, partnerships });
+};
+
+// Logs the tree's layout and draw timings (the "tree-*" performance measures) to the console.
+// Returns a function that stops logging.
+export const logChartTimings = (): (() => void) => {
+  const observer = new PerformanceObserver(list => {
+    list.getEntries()
+      .filter(entry => entry.name.startsWith('tree-'))
+      .forEach(entry => console.info(`${entry.name}: ${entry.duration.toFixed(1)} ms`, (entry as PerformanceMeasure).detail));
+  });
+  observer.observe({ entryTypes: ['measure'] });
+  return () => observer.disconnect();
+};
@@ -0,0 +1,161 @@
+import { DateQualifier, LifeEvent, PartialDate, Person } from '../types.ts';
+
+// Parsing and formatting of partial genealogy dates such as "abt. 1925", "bef. Mar 1900" or "12 Mar 1925".
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const QUALIFIER_LABELS: Record<DateQualifier, string> = {
+  abt: 'abt.',
+  bef: 'bef.',
+  aft: 'aft.',
+  est: 'est.',
+  cal: 'cal.'
+};
+
+// Words people (and GEDCOM files) use for each qualifier
+const QUALIFIER_ALIASES: Record<string, DateQualifier> = {
+  abt: 'abt', about: 'abt', c: 'abt', ca: 'abt', circa: 'abt', '~': 'abt',
+  bef: 'bef', before: 'bef',
+  aft: 'aft', after: 'aft',
+  est: 'est', estimated: 'est',
+  cal: 'cal', calculated: 'cal'
+};
+
+const monthFromWord = (word: string): number | undefined => {
+  const index = MONTHS.indexOf(word.slice(0, 3).toLowerCase());
+  return index === -1 ? undefined : index + 1;
+};
+
+// Returns undefined for an empty input and null when the text is not a date we understand
+export const parseDate = (text: string): PartialDate | undefined | null => {
+  let rest = text.trim().toLowerCase();
+  if (rest === '') return undefined;
+
+  const date: PartialDate = {};
+  const qualifierMatch = /^(~|[a-z]+)\.?\s*/.exec(rest);
+  if (qualifierMatch && QUALIFIER_ALIASES[qualifierMatch[1]]) {
+    date.qualifier = QUALIFIER_ALIASES[qualifierMatch[1]];
+    rest = rest.slice(qualifierMatch[0].length);
+  }
+
+  // ISO style: 1925, 1925-03, 1925-03-12
+  const iso = /^(\d{3,4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(rest);
+  if (iso) {
+    date.year = parseInt(iso[1], 10);
+    if (iso[2]) date.month = parseInt(iso[2], 10);
+    if (iso[3]) date.day = parseInt(iso[3], 10);
+    return isValidDate(date) ? date : null;
+  }
+
+  // Written style: 12 Mar 1925, Mar 1925, March 12, 1925
+  const tokens = rest.replace(/,/g, ' ').split(/\s+/).filter(Boolean);
+  for (const token of tokens) {
+    if (/^\d+$/.test(token)) {
+      const value = parseInt(token, 10);
+      if (token.length >= 3) {
+        if (date.year !== undefined) return null;
+        date.year = value;
+      } else {
+        if (date.day !== undefined) return null;
+        date.day = value;
+      }
+    } else {
+      const month = monthFromWord(token);
+      if (month === undefined || date.month !== undefined) return null;
+      date.month = month;
+    }
+  }
+
+  if (date.year === undefined) return null;
+  return isValidDate(date) ? date : null;
+};
+
+// Days in a month (1-12); February has 29 when the year is a leap year or not known
+export const daysInMonth = (month: number, year?: number): number =>
+  month === 2 && year !== undefined && !(year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0))
+    ? 28
+    : [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1];
+
+const isValidDate = (date: PartialDate) => {
+  if (date.month !== undefined && (date.month < 1 || date.month > 12)) return false;
+  if (date.day !== undefined && (date.month === undefined || date.day < 1 || date.day > daysInMonth(date.month, date.year))) return false;
+  return true;
+};
+
+export const formatDate = (date?: PartialDate): string => {
+  if (!date || date.year === undefined) return '';
+  const parts: string[] = [];
+  if (date.qualifier) parts.push(QUALIFIER_LABELS[date.qualifier]);
+  if (date.day !== undefined) parts.push(String(date.day));
+  if (date.month !== undefined) parts.push(MONTH_LABELS[date.month - 1]);
+  parts.push(String(date.year));
+  return parts.join(' ');
+};
+
+// Year with its qualifier, for compact labels: "abt. 1925"
+export const formatYear = (date?: PartialDate): string => {
+  if (!date || date.year === undefined) return '';
+  return date.qualifier ? `${QUALIFIER_LABELS[date.qualifier]} ${date.year}` : String(date.year);
+};
+
+// "1925 – 1998", "b. 1925", "d. 1998" or ""
+export const formatLifespan = (person: Pick<Person, 'birth' | 'death'>): string => {
+  const born = formatYear(person.birth?.date);
+  const died = formatYear(person.death?.date);
+  if (born && died) return `${born} – ${died}`;
+  if (born) return person.death ? `${born} – ?` : `b. ${born}`;
+  if (died) return `d. ${died}`;
+  return '';
+};
+
+export const getBirthYear = (person: Pick<Person, 'birth'>): number | undefined => person.birth?.date?.year;
+
+// An estimated event `offset` years from a known year, used for placeholder relatives
+export const estimateEvent = (year: number | undefined, offset: number): LifeEvent | undefined =>
+  year === undefined ? undefined : { date: { qualifier: 'est', year: year + offset } };
+
+// --- GEDCOM dates ---
+
+const GEDCOM_QUALIFIERS: Record<DateQualifier, string> = { abt: 'ABT', bef: 'BEF', aft: 'AFT', est: 'EST', cal: 'CAL' };
+
+export const formatGedcomDate = (date?: PartialDate): string => {
+  if (!date || date.year === undefined) return '';
+  const parts: string[] = [];
+  if (date.qualifier) parts.push(GEDCOM_QUALIFIERS[date.qualifier]);
+  if (date.day !== undefined) parts.push(String(date.day));
+  if (date.month !== undefined) parts.push(MONTHS[date.month - 1].toUpperCase());
+  parts.push(String(date.year));
+  return parts.join(' ');
+};
+
+// GEDCOM dates use the same words as the free-text parser; ranges ("BET 1900 AND 1910") keep their first year
+export const parseGedcomDate = (value: string): PartialDate | null => {
+  const range = /^(?:bet|from)\s+(.*?)\s+(?:and|to)\s+.*$/i.exec(value.trim());
+  if (range) {
+    const start = parseDate(range[1]);
+    return start ? { ...start, qualifier: 'aft' } : null;
+  }
+  return parseDate(value) ?? null;
+};
+
+// --- Legacy data ---
+
+// Saves and exports made before structured dates only had a free-text birth year
+export type LegacyPerson = Person & { year?: unknown };
+
+export const eventFromLegacyYear = (year: unknown): LifeEvent | undefined => {
+  if (typeof year !== 'string' && typeof year !== 'number') return undefined;
+  const date = parseDate(String(year));
+  return date ? { date } : undefined;
+};
+
+// A year that cannot be read as a date (e.g. "1920s" or "Unknown") is kept in the notes
+export const upgradeLegacyPerson = ({ year, ...person }: LegacyPerson): Person => {
+  const birth = eventFromLegacyYear(year);
+  if (birth) return { ...person, birth };
+  const text = typeof year === 'string' || typeof year === 'number' ? String(year).trim() : '';
+  if (!text) return person;
+  const note = `Birth year (as entered): ${text}`;
+  return { ...person, notes: person.notes ? `${person.notes}\n\n${note}` : note };
+};
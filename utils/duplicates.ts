@@ -0,0 +1,184 @@
+import { FamilyGraph, Person } from '../types.ts';
+import { getChildIds, getDegree, getParentIds, getPartnerIds } from './graph.ts';
+
+// Two records that probably describe the same person
+export interface DuplicateCandidate {
+  keepId: string;
+  mergeId: string;
+  // 0-1, how alike the two records are
+  score: number;
+  // Why they were matched, e.g. "Born the same year"
+  reasons: string[];
+}
+
+// The details that can be taken from either record when merging
+export type MergeField = 'name' | 'imageUrl' | 'gender' | 'relationship' | 'birth' | 'death' | 'notes';
+export type MergeChoice = 'keep' | 'merge';
+
+export const MERGE_FIELDS: MergeField[] = ['name', 'imageUrl', 'gender', 'relationship', 'birth', 'death', 'notes'];
+
+const MIN_NAME_SCORE = 0.8;
+const MIN_SCORE = 0.72;
+
+// Lowercase words without accents or punctuation, so "José O'Neil" matches "jose oneil"
+const nameTokens = (name: string): string[] =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’.]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+// Jaro-Winkler similarity: forgiving of typos and transposed letters, favouring a shared beginning
+const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  const range = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - range); j < Math.min(b.length, i + range + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+// Word by word, so "Perera Sunil" still matches "Sunil Perera" and a missing middle name costs little
+const tokenScore = (a: string[], b: string[]): number => {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.length === 0) return 0;
+  const best = shorter.map(token => Math.max(...longer.map(other => jaroWinkler(token, other))));
+  const average = best.reduce((sum, score) => sum + score, 0) / best.length;
+  // A lone shared surname is not much of a match
+  return shorter.length === 1 && longer.length > 1 ? average * 0.85 : average;
+};
+
+const nameScore = (a: string[], b: string[]): number =>
+  Math.max(jaroWinkler(a.join(' '), b.join(' ')), tokenScore(a, b));
+
+// How well two years agree; null when they are too far apart to be the same person
+const yearScore = (a?: number, b?: number): number | null => {
+  if (a === undefined || b === undefined) return 0.6;
+  const gap = Math.abs(a - b);
+  if (gap === 0) return 1;
+  if (gap <= 2) return 0.8;
+  if (gap <= 5) return 0.5;
+  return null;
+};
+
+const yearReason = (event: string, a?: number, b?: number): string | null => {
+  if (a === undefined || b === undefined) return null;
+  return a === b ? `${event} the same year` : `${event} ${Math.abs(a - b)} year${Math.abs(a - b) === 1 ? '' : 's'} apart`;
+};
+
+const samePlace = (a?: string, b?: string) =>
+  !!a && !!b && nameTokens(a).join(' ') === nameTokens(b).join(' ');
+
+// Scores a pair of records, or returns null when something rules out their being the same person
+export const compareDuplicates = (a: Person, b: Person): { score: number; reasons: string[] } | null => {
+  const name = nameScore(nameTokens(a.name), nameTokens(b.name));
+  if (name < MIN_NAME_SCORE) return null;
+  if (a.gender && b.gender && a.gender !== 'unknown' && b.gender !== 'unknown' && a.gender !== b.gender) return null;
+
+  const birthYears = [a.birth?.date?.year, b.birth?.date?.year] as const;
+  const deathYears = [a.death?.date?.year, b.death?.date?.year] as const;
+  const birth = yearScore(...birthYears);
+  const death = yearScore(...deathYears);
+  if (birth === null || death === null) return null;
+
+  const reasons = [name === 1 ? 'Same name' : 'Similar name'];
+  const birthReason = yearReason('Born', ...birthYears);
+  const deathReason = yearReason('Died', ...deathYears);
+  if (birthReason) reasons.push(birthReason);
+  if (deathReason) reasons.push(deathReason);
+
+  let score = 0.6 * name + 0.25 * birth + 0.15 * death;
+  if (samePlace(a.birth?.place, b.birth?.place)) {
+    score = Math.min(1, score + 0.05);
+    reasons.push('Same birthplace');
+  }
+  return score >= MIN_SCORE ? { score, reasons } : null;
+};
+
+// People who are already related as parent and child or as partners are clearly not duplicates
+const areRelated = (graph: FamilyGraph, a: string, b: string) =>
+  getParentIds(graph, a).includes(b) || getChildIds(graph, a).includes(b) || getPartnerIds(graph, a).includes(b);
+
+// Proposes likely duplicate people, best match first. Each person is proposed at most once. Passing
+// `leftIds` and `rightIds` only compares people across the two groups, e.g. the current tree with an
+// imported one; the left record is then the one kept.
+export const findDuplicates = (graph: FamilyGraph, leftIds?: string[], rightIds?: string[]): DuplicateCandidate[] => {
+  const left = leftIds || Object.keys(graph.persons);
+  const right = rightIds || left;
+
+  // Only compare people sharing the start of a name word, instead of everyone with everyone
+  const blocks = new Map<string, string[]>();
+  right.forEach(id => {
+    new Set(nameTokens(graph.persons[id].name).map(token => token.slice(0, 2))).forEach(block => {
+      blocks.set(block, [...(blocks.get(block) || []), id]);
+    });
+  });
+
+  const candidates: DuplicateCandidate[] = [];
+  const compared = new Set<string>();
+  left.forEach(a => {
+    const others = new Set(nameTokens(graph.persons[a].name).flatMap(token => blocks.get(token.slice(0, 2)) || []));
+    others.forEach(b => {
+      const pair = a < b ? `${a}|${b}` : `${b}|${a}`;
+      if (a === b || compared.has(pair) || areRelated(graph, a, b)) return;
+      compared.add(pair);
+      const match = compareDuplicates(graph.persons[a], graph.persons[b]);
+      // Without groups, keep whoever is better connected
+      const [keepId, mergeId] = rightIds || getDegree(graph, a) >= getDegree(graph, b) ? [a, b] : [b, a];
+      if (match) candidates.push({ keepId, mergeId, ...match });
+    });
+  });
+
+  candidates.sort((x, y) => y.score - x.score);
+  const proposed = new Set<string>();
+  return candidates.filter(({ keepId, mergeId }) => {
+    if (proposed.has(keepId) || proposed.has(mergeId)) return false;
+    proposed.add(keepId);
+    proposed.add(mergeId);
+    return true;
+  });
+};
+
+// The merged record: each field from the chosen side, falling back to whichever record has it.
+// Media from both records are kept, and the portrait follows the chosen picture.
+export const combinePersons = (keep: Person, merge: Person, choices: Partial<Record<MergeField, MergeChoice>> = {}): Person => {
+  const person: Person = { ...merge, ...keep };
+  // A real photo beats the placeholder portrait unless a choice was made
+  const defaultChoice = (field: MergeField): MergeChoice =>
+    field === 'imageUrl' && !keep.portraitMediaId && merge.portraitMediaId ? 'merge' : 'keep';
+  const pick = <K extends MergeField>(field: K) => {
+    const [first, second] = (choices[field] || defaultChoice(field)) === 'merge' ? [merge, keep] : [keep, merge];
+    person[field] = (first[field] || second[field]) as Person[K];
+  };
+  MERGE_FIELDS.forEach(pick);
+  const picked = person.imageUrl === keep.imageUrl ? keep : merge;
+  const media = [...(keep.media || []), ...(merge.media || [])];
+  person.media = media.filter((item, i) => media.findIndex(other => other.id === item.id) === i);
+  person.portraitMediaId = picked.portraitMediaId;
+  if (person.media.length === 0) delete person.media;
+  if (!person.portraitMediaId) delete person.portraitMediaId;
+  return person;
+};
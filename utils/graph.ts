@@ -0,0 +1,394 @@
+import { FamilyGraph, FamilyMember, Partnership, Person, SiblingKind } from '../types.ts';
+
+// Pure helpers over the normalized FamilyGraph.
+// Mutations never walk the tree: they touch the affected people and their edge indexes only,
+// and always return a new graph so the undo history can keep old versions around.
+
+export const createId = (prefix: string) =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// --- Index helpers ---
+
+const appendId = (index: Record<string, string[]>, key: string, id: string): Record<string, string[]> => ({
+  ...index,
+  [key]: [...(index[key] || []), id]
+});
+
+const removeId = (index: Record<string, string[]>, key: string, id: string): Record<string, string[]> => {
+  const ids = index[key];
+  if (!ids) return index;
+  return { ...index, [key]: ids.filter(i => i !== id) };
+};
+
+// --- Construction ---
+
+export interface GraphSnapshot {
+  rootId: string;
+  persons: Person[];
+  parentIds: Record<string, string[]>;
+  partnerships: Partnership[];
+}
+
+// Builds a graph (including the reverse indexes) from its plain parts
+export const buildGraph = ({ rootId, persons, parentIds, partnerships }: GraphSnapshot): FamilyGraph => {
+  const graph: FamilyGraph = {
+    rootId,
+    persons: {},
+    partnerships: {},
+    parentIds: {},
+    childIds: {},
+    partnershipIds: {}
+  };
+
+  persons.forEach(p => { graph.persons[p.id] = p; });
+
+  Object.entries(parentIds).forEach(([childId, parents]) => {
+    if (parents.length === 0) return;
+    graph.parentIds[childId] = [...parents];
+    parents.forEach(parentId => {
+      (graph.childIds[parentId] ||= []).push(childId);
+    });
+  });
+
+  partnerships.forEach(partnership => {
+    graph.partnerships[partnership.id] = partnership;
+    partnership.partnerIds.forEach(personId => {
+      (graph.partnershipIds[personId] ||= []).push(partnership.id);
+    });
+  });
+
+  return graph;
+};
+
+export const toSnapshot = (graph: FamilyGraph): GraphSnapshot => ({
+  rootId: graph.rootId,
+  persons: Object.values(graph.persons),
+  parentIds: graph.parentIds,
+  partnerships: Object.values(graph.partnerships)
+});
+
+// Trees saved before multiple marriages carried a single `spouse` instead of `spouses`
+type NestedMember = FamilyMember & { spouse?: NestedMember };
+
+const toPerson = ({ parents, children, spouse, spouses, union, siblings, siblingKind, ...person }: NestedMember): Person => person;
+
+// Converts a nested ancestor tree (the pre-graph data shape) into a graph
+export const graphFromTree = (root: NestedMember): FamilyGraph => {
+  const persons = new Map<string, Person>();
+  const parentIds: Record<string, string[]> = {};
+  const partnerships: Partnership[] = [];
+
+  const visit = (member: NestedMember) => {
+    if (persons.has(member.id)) return;
+    persons.set(member.id, toPerson(member));
+
+    if (member.parents && member.parents.length > 0) {
+      parentIds[member.id] = member.parents.map(p => p.id);
+      member.parents.forEach(visit);
+    }
+    const spouses = member.spouses || (member.spouse ? [member.spouse] : []);
+    spouses.forEach(spouse => {
+      partnerships.push({ id: `union-${member.id}-${spouse.id}`, partnerIds: [member.id, spouse.id] });
+      visit(spouse);
+    });
+  };
+  visit(root);
+
+  return buildGraph({ rootId: root.id, persons: Array.from(persons.values()), parentIds, partnerships });
+};
+
+// --- Selectors ---
+
+export const getParentIds = (graph: FamilyGraph, id: string): string[] => graph.parentIds[id] || [];
+
+export const getChildIds = (graph: FamilyGraph, id: string): string[] => graph.childIds[id] || [];
+
+const otherPartner = (partnership: Partnership, id: string) =>
+  partnership.partnerIds[0] === id ? partnership.partnerIds[1] : partnership.partnerIds[0];
+
+export const getPartnerIds = (graph: FamilyGraph, id: string): string[] =>
+  (graph.partnershipIds[id] || []).map(pid => otherPartner(graph.partnerships[pid], id));
+
+export const getPartnerships = (graph: FamilyGraph, id: string): Partnership[] =>
+  (graph.partnershipIds[id] || []).map(pid => graph.partnerships[pid]);
+
+// The children a partnership produced: those whose parents include both partners
+export const getPartnershipChildIds = (graph: FamilyGraph, partnership: Partnership): string[] => {
+  const [a, b] = partnership.partnerIds;
+  return getChildIds(graph, a).filter(cid => getParentIds(graph, cid).includes(b));
+};
+
+// Everyone who shares at least one parent with `id`, in the order their parents' children were added
+export const getSiblings = (graph: FamilyGraph, id: string): { id: string; kind: SiblingKind }[] => {
+  const parentIds = getParentIds(graph, id);
+  const siblingIds = new Set<string>();
+  parentIds.forEach(pid => getChildIds(graph, pid).forEach(cid => {
+    if (cid !== id) siblingIds.add(cid);
+  }));
+  return Array.from(siblingIds).map(sid => {
+    const theirParents = getParentIds(graph, sid);
+    const isFull = theirParents.length === parentIds.length && theirParents.every(pid => parentIds.includes(pid));
+    return { id: sid, kind: isFull ? 'full' : 'half' };
+  });
+};
+
+// Total number of relationships a person takes part in
+export const getDegree = (graph: FamilyGraph, id: string): number =>
+  getParentIds(graph, id).length + getChildIds(graph, id).length + getPartnerIds(graph, id).length;
+
+// Whether `ancestorId` appears anywhere in `id`'s ancestry
+export const isAncestorOf = (graph: FamilyGraph, ancestorId: string, id: string): boolean => {
+  const visited = new Set<string>();
+  const queue = [...getParentIds(graph, id)];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === ancestorId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    queue.push(...getParentIds(graph, current));
+  }
+  return false;
+};
+
+const selectSiblings = (graph: FamilyGraph, id: string, exclude: Set<string>): FamilyMember[] =>
+  getSiblings(graph, id)
+    .filter(sibling => graph.persons[sibling.id] && !exclude.has(sibling.id))
+    .map(sibling => ({ ...graph.persons[sibling.id], siblingKind: sibling.kind }));
+
+// Produces the nested ancestor hierarchy LegacyTree draws, starting at `rootId`.
+// A person reached through several lines is emitted once per line; a person is never
+// repeated inside their own ancestry, which keeps corrupt (cyclic) data from recursing forever.
+export const selectAncestorTree = (graph: FamilyGraph, rootId: string = graph.rootId): FamilyMember => {
+  const build = (id: string, path: Set<string>, coParentIds: string[]): FamilyMember => {
+    const person = graph.persons[id];
+    const nextPath = new Set(path).add(id);
+    const parentIds = getParentIds(graph, id).filter(pid => graph.persons[pid] && !nextPath.has(pid));
+
+    const member: FamilyMember = {
+      ...person,
+      parents: parentIds.map(pid => build(pid, nextPath, parentIds.filter(other => other !== pid)))
+    };
+
+    // Spouses are the partners who are not already drawn as the other parent of the child below
+    const spouses = getPartnerships(graph, id)
+      .filter(union => {
+        const partnerId = otherPartner(union, id);
+        return graph.persons[partnerId] && !coParentIds.includes(partnerId) && !nextPath.has(partnerId);
+      })
+      .map(union => ({ ...build(otherPartner(union, id), nextPath, [id]), union }));
+    if (spouses.length > 0) {
+      member.spouses = spouses;
+    }
+
+    // Brothers and sisters of everyone in the ancestry: the root's siblings, aunts, uncles, ...
+    const siblings = selectSiblings(graph, id, nextPath);
+    if (siblings.length > 0) {
+      member.siblings = siblings;
+    }
+
+    return member;
+  };
+
+  return build(rootId, new Set(), []);
+};
+
+// Produces the nested descendant hierarchy for the descendant chart, starting at `focusId`.
+// Each member's `children` holds their children, grouped by the partnership they were born to;
+// `spouses` holds every partner, without that partner's own relatives.
+export const selectDescendantTree = (graph: FamilyGraph, focusId: string = graph.rootId): FamilyMember => {
+  const build = (id: string, path: Set<string>): FamilyMember => {
+    const nextPath = new Set(path).add(id);
+    const unions = getPartnerships(graph, id).filter(union => {
+      const partnerId = otherPartner(union, id);
+      return graph.persons[partnerId] && !nextPath.has(partnerId);
+    });
+
+    // Children of the first partnership come first, children with no known co-parent last
+    const unionIndex = (cid: string) => {
+      const index = unions.findIndex(union => getParentIds(graph, cid).includes(otherPartner(union, id)));
+      return index === -1 ? unions.length : index;
+    };
+    const childIds = getChildIds(graph, id)
+      .filter(cid => graph.persons[cid] && !nextPath.has(cid))
+      .sort((a, b) => unionIndex(a) - unionIndex(b));
+
+    const member: FamilyMember = {
+      ...graph.persons[id],
+      children: childIds.map(cid => build(cid, nextPath))
+    };
+    if (unions.length > 0) {
+      member.spouses = unions.map(union => ({ ...graph.persons[otherPartner(union, id)], union }));
+    }
+
+    return member;
+  };
+
+  // Everyone else's siblings already appear as their parents' children; only the focus person's are missing
+  const root = build(focusId, new Set());
+  const siblings = selectSiblings(graph, focusId, new Set([focusId]));
+  return siblings.length > 0 ? { ...root, siblings } : root;
+};
+
+// Ancestor hierarchy of `focusId` whose root also carries their descendants (an "hourglass" chart)
+export const selectHourglassTree = (graph: FamilyGraph, focusId: string = graph.rootId): FamilyMember => ({
+  ...selectAncestorTree(graph, focusId),
+  children: selectDescendantTree(graph, focusId).children
+});
+
+// --- Mutations ---
+
+export const updatePerson = (graph: FamilyGraph, id: string, updates: Partial<Person>): FamilyGraph => {
+  const person = graph.persons[id];
+  if (!person) return graph;
+  return { ...graph, persons: { ...graph.persons, [id]: { ...person, ...updates, id } } };
+};
+
+const addPerson = (graph: FamilyGraph, person: Person): FamilyGraph => ({
+  ...graph,
+  persons: { ...graph.persons, [person.id]: person }
+});
+
+// Links two people already in the graph as parent and child
+export const linkParent = (graph: FamilyGraph, childId: string, parentId: string): FamilyGraph => {
+  if (getParentIds(graph, childId).includes(parentId)) return graph;
+  return {
+    ...graph,
+    parentIds: appendId(graph.parentIds, childId, parentId),
+    childIds: appendId(graph.childIds, parentId, childId)
+  };
+};
+
+export const addParent = (graph: FamilyGraph, childId: string, parent: Person): FamilyGraph =>
+  linkParent(addPerson(graph, parent), childId, parent.id);
+
+// `parentIds` usually holds the person the child was added to, plus their partner when they have one
+export const addChild = (graph: FamilyGraph, parentIds: string[], child: Person): FamilyGraph =>
+  parentIds.reduce((next, parentId) => linkParent(next, child.id, parentId), addPerson(graph, child));
+
+// A new full sibling shares all of the person's parents (there must be at least one)
+export const addSibling = (graph: FamilyGraph, siblingOfId: string, sibling: Person): FamilyGraph =>
+  addChild(graph, getParentIds(graph, siblingOfId), sibling);
+
+export const addPartner = (graph: FamilyGraph, personId: string, partner: Person): FamilyGraph => {
+  const next = addPerson(graph, partner);
+  const partnership: Partnership = { id: createId('union'), partnerIds: [personId, partner.id] };
+  return {
+    ...next,
+    partnerships: { ...next.partnerships, [partnership.id]: partnership },
+    partnershipIds: appendId(appendId(next.partnershipIds, personId, partnership.id), partner.id, partnership.id)
+  };
+};
+
+export const updatePartnership = (graph: FamilyGraph, id: string, updates: Partial<Omit<Partnership, 'id' | 'partnerIds'>>): FamilyGraph => {
+  const partnership = graph.partnerships[id];
+  if (!partnership) return graph;
+  return { ...graph, partnerships: { ...graph.partnerships, [id]: { ...partnership, ...updates } } };
+};
+
+export const setRoot = (graph: FamilyGraph, id: string): FamilyGraph =>
+  graph.persons[id] ? { ...graph, rootId: id } : graph;
+
+// Removes a person together with every relationship they take part in
+export const removePerson = (graph: FamilyGraph, id: string): FamilyGraph => {
+  if (!graph.persons[id] || id === graph.rootId) return graph;
+
+  const { [id]: _removed, ...persons } = graph.persons;
+  let { parentIds, childIds, partnershipIds } = graph;
+  const partnerships = { ...graph.partnerships };
+
+  getParentIds(graph, id).forEach(pid => { childIds = removeId(childIds, pid, id); });
+  getChildIds(graph, id).forEach(cid => { parentIds = removeId(parentIds, cid, id); });
+  (graph.partnershipIds[id] || []).forEach(unionId => {
+    graph.partnerships[unionId].partnerIds
+      .filter(pid => pid !== id)
+      .forEach(pid => { partnershipIds = removeId(partnershipIds, pid, unionId); });
+    delete partnerships[unionId];
+  });
+
+  const { [id]: _parents, ...restParentIds } = parentIds;
+  const { [id]: _children, ...restChildIds } = childIds;
+  const { [id]: _unions, ...restPartnershipIds } = partnershipIds;
+
+  return {
+    ...graph,
+    persons,
+    partnerships,
+    parentIds: restParentIds,
+    childIds: restChildIds,
+    partnershipIds: restPartnershipIds
+  };
+};
+
+// Merges two records of the same person into `keepId`. `person` holds the combined details;
+// `mergeId`'s parents, children and partnerships move over to the kept record, and a partnership
+// both records had with the same partner becomes one.
+export const mergePersons = (graph: FamilyGraph, keepId: string, mergeId: string, person: Person): FamilyGraph => {
+  const keep = graph.persons[keepId];
+  const merge = graph.persons[mergeId];
+  if (!keep || !merge || keepId === mergeId) return graph;
+  // Joining two people on the same line of descent would make them their own ancestor
+  if (isAncestorOf(graph, keepId, mergeId) || isAncestorOf(graph, mergeId, keepId)) {
+    throw new Error(`${keep.name} and ${merge.name} cannot be merged: one is an ancestor of the other.`);
+  }
+  const parents = [...getParentIds(graph, keepId)];
+  getParentIds(graph, mergeId).forEach(pid => {
+    if (!parents.includes(pid)) parents.push(pid);
+  });
+  if (parents.length > 2) {
+    throw new Error(`${keep.name} and ${merge.name} have different parents. Merge the parents first if they are the same people.`);
+  }
+
+  let { parentIds, childIds, partnershipIds } = graph;
+  const partnerships = { ...graph.partnerships };
+
+  getParentIds(graph, mergeId).forEach(pid => {
+    childIds = removeId(childIds, pid, mergeId);
+    if (!getChildIds(graph, pid).includes(keepId)) childIds = appendId(childIds, pid, keepId);
+  });
+  if (parents.length > 0) parentIds = { ...parentIds, [keepId]: parents };
+
+  getChildIds(graph, mergeId).forEach(cid => {
+    const childParents = getParentIds(graph, cid).map(pid => (pid === mergeId ? keepId : pid));
+    parentIds = { ...parentIds, [cid]: childParents.filter((pid, i) => childParents.indexOf(pid) === i) };
+    if (!(childIds[keepId] || []).includes(cid)) childIds = appendId(childIds, keepId, cid);
+  });
+
+  (graph.partnershipIds[mergeId] || []).forEach(unionId => {
+    const partnership = graph.partnerships[unionId];
+    const otherId = partnership.partnerIds.find(pid => pid !== mergeId)!;
+    // Every union of keep includes keep, so the lookup only makes sense for a third person
+    const existing = otherId === keepId ? undefined : getPartnerships(graph, keepId).find(p => p.partnerIds.includes(otherId));
+    if (otherId === keepId || existing) {
+      // Partnered with each other, or both with the same person: the merged record keeps one union
+      delete partnerships[unionId];
+      partnership.partnerIds.forEach(pid => { partnershipIds = removeId(partnershipIds, pid, unionId); });
+      if (existing) {
+        partnerships[existing.id] = {
+          ...existing,
+          marriage: existing.marriage ?? partnership.marriage,
+          divorce: existing.divorce ?? partnership.divorce
+        };
+      }
+      return;
+    }
+    partnerships[unionId] = {
+      ...partnership,
+      partnerIds: partnership.partnerIds.map(pid => (pid === mergeId ? keepId : pid)) as [string, string]
+    };
+    partnershipIds = appendId(partnershipIds, keepId, unionId);
+  });
+
+  const { [mergeId]: _merged, ...persons } = graph.persons;
+  const { [mergeId]: _parents, ...restParentIds } = parentIds;
+  const { [mergeId]: _children, ...restChildIds } = childIds;
+  const { [mergeId]: _unions, ...restPartnershipIds } = partnershipIds;
+
+  return {
+    rootId: graph.rootId === mergeId ? keepId : graph.rootId,
+    persons: { ...persons, [keepId]: { ...person, id: keepId } },
+    partnerships,
+    parentIds: restParentIds,
+    childIds: restChildIds,
+    partnershipIds: restPartnershipIds
+  };
+};
@@ -0,0 +1,197 @@
+import { FamilyGraph, Gender } from '../types.ts';
+import { getParentIds, getPartnerships } from './graph.ts';
+
+// Kinship terms computed from the graph. Blood relatives are found through their closest common
+// ancestor; in-laws and step-relatives through one partnership on either end of the path.
+
+export interface Kinship {
+  // What the second person is to the first, e.g. "second cousin once removed"
+  term: string;
+  // Everyone on the connecting path, from the first person to the second
+  path: string[];
+}
+
+interface Lineage {
+  generations: number;
+  // From the person up to the ancestor, both included
+  path: string[];
+}
+
+interface BloodLink {
+  up: number;   // generations from the first person up to the common ancestor
+  down: number; // generations from the common ancestor down to the second person
+  path: string[];
+}
+
+// Every ancestor (and the person themselves) with the shortest line to them
+const ancestorLines = (graph: FamilyGraph, id: string): Map<string, Lineage> => {
+  const lines = new Map<string, Lineage>([[id, { generations: 0, path: [id] }]]);
+  const queue = [id];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const line = lines.get(current)!;
+    getParentIds(graph, current).forEach(pid => {
+      if (lines.has(pid) || !graph.persons[pid]) return;
+      lines.set(pid, { generations: line.generations + 1, path: [...line.path, pid] });
+      queue.push(pid);
+    });
+  }
+  return lines;
+};
+
+// --- Terms ---
+
+const ORDINAL_WORDS = ['', 'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+const gendered = (gender: Gender | undefined, male: string, female: string, neutral: string) =>
+  gender === 'male' ? male : gender === 'female' ? female : neutral;
+
+// 1: father, 2: grandfather, 3: great-grandfather, 4: 2nd great-grandfather, ...
+const lineal = (base: string, generations: number) => {
+  if (generations === 1) return base;
+  if (generations === 2) return `grand${base}`;
+  if (generations === 3) return `great-grand${base}`;
+  return `${ordinal(generations - 2)} great-grand${base}`;
+};
+
+// 1: uncle, 2: great-uncle, 3: 2nd great-uncle, ...
+const collateral = (base: string, generations: number) => {
+  if (generations === 1) return base;
+  if (generations === 2) return `great-${base}`;
+  return `${ordinal(generations - 1)} great-${base}`;
+};
+
+const removedSuffix = (removed: number) => {
+  if (removed === 0) return '';
+  if (removed === 1) return ' once removed';
+  if (removed === 2) return ' twice removed';
+  return ` ${removed} times removed`;
+};
+
+const bloodTerm = ({ up, down }: BloodLink, gender: Gender | undefined, isHalf: boolean): string => {
+  if (up === 0 && down === 0) return 'self';
+  if (down === 0) return lineal(gendered(gender, 'father', 'mother', 'parent'), up);
+  if (up === 0) return lineal(gendered(gender, 'son', 'daughter', 'child'), down);
+  if (up === 1 && down === 1) return `${isHalf ? 'half-' : ''}${gendered(gender, 'brother', 'sister', 'sibling')}`;
+  if (up === 1) {
+    const nephew = (base: string) => lineal(base, down - 1);
+    return gendered(gender, nephew('nephew'), nephew('niece'), `${nephew('niece')} or ${nephew('nephew')}`);
+  }
+  if (down === 1) {
+    const uncle = (base: string) => collateral(base, up - 1);
+    return gendered(gender, uncle('uncle'), uncle('aunt'), `${uncle('aunt')} or ${uncle('uncle')}`);
+  }
+
+  const degree = Math.min(up, down) - 1;
+  const name = ORDINAL_WORDS[degree] || ordinal(degree);
+  return `${name} cousin${removedSuffix(Math.abs(up - down))}`;
+};
+
+// --- Calculator ---
+
+// Returns a function answering "what is `toId` to `fromId`?". The first person's ancestry is
+// worked out once, so labelling a whole tree stays cheap.
+export const createKinshipCalculator = (graph: FamilyGraph, fromId: string) => {
+  const lineCache = new Map<string, Map<string, Lineage>>();
+  const linesOf = (id: string) => {
+    if (!lineCache.has(id)) lineCache.set(id, ancestorLines(graph, id));
+    return lineCache.get(id)!;
+  };
+
+  // Closest blood link from `aId` to `bId` through a common ancestor
+  const bloodLink = (aId: string, bId: string): BloodLink | null => {
+    const aLines = linesOf(aId);
+    let best: BloodLink | null = null;
+    linesOf(bId).forEach((bLine, ancestorId) => {
+      const aLine = aLines.get(ancestorId);
+      if (!aLine) return;
+      if (best && aLine.generations + bLine.generations >= best.up + best.down) return;
+      best = {
+        up: aLine.generations,
+        down: bLine.generations,
+        path: [...aLine.path, ...bLine.path.slice(0, -1).reverse()]
+      };
+    });
+    return best;
+  };
+
+  // Siblings are half siblings unless they share all of their parents
+  const isHalf = (link: BloodLink) => {
+    if (link.up !== 1 || link.down !== 1) return false;
+    const a = getParentIds(graph, link.path[0]);
+    const b = getParentIds(graph, link.path[link.path.length - 1]);
+    return a.length !== b.length || a.some(pid => !b.includes(pid));
+  };
+
+  const genderOf = (id: string) => graph.persons[id]?.gender;
+
+  const partnersOf = (id: string) => getPartnerships(graph, id).map(union => ({
+    id: union.partnerIds[0] === id ? union.partnerIds[1] : union.partnerIds[0],
+    isDivorced: !!union.divorce
+  })).filter(partner => graph.persons[partner.id]);
+
+  const closest = (candidates: (Kinship & { distance: number })[]): Kinship | null => {
+    if (candidates.length === 0) return null;
+    const { term, path } = candidates.reduce((a, b) => (b.distance < a.distance ? b : a));
+    return { term, path };
+  };
+
+  return (toId: string): Kinship | null => {
+    if (!graph.persons[fromId] || !graph.persons[toId]) return null;
+    const gender = genderOf(toId);
+
+    const blood = bloodLink(fromId, toId);
+    if (blood) return { term: bloodTerm(blood, gender, isHalf(blood)), path: blood.path };
+
+    const partner = partnersOf(fromId).find(p => p.id === toId);
+    if (partner) {
+      const term = gendered(gender, 'husband', 'wife', 'spouse');
+      return { term: partner.isDivorced ? `ex-${term}` : term, path: [fromId, toId] };
+    }
+
+    // The partner of one of my blood relatives: son-in-law, sister-in-law, stepmother, aunt by marriage
+    const viaTheirPartner = closest(partnersOf(toId).flatMap(({ id: relativeId }) => {
+      const link = bloodLink(fromId, relativeId);
+      if (!link || (link.up === 0 && link.down === 0)) return [];
+      let term: string;
+      if (link.up === 0 && link.down === 1) term = `${gendered(gender, 'son', 'daughter', 'child')}-in-law`;
+      else if (link.up === 1 && link.down === 1) term = `${gendered(gender, 'brother', 'sister', 'sibling')}-in-law`;
+      else if (link.up === 1 && link.down === 0) term = `step${gendered(gender, 'father', 'mother', '-parent')}`;
+      else term = `${bloodTerm(link, gender, false)} by marriage`;
+      return [{ term, path: [...link.path, toId], distance: link.up + link.down + 1 }];
+    }));
+    if (viaTheirPartner) return viaTheirPartner;
+
+    // A blood relative of my partner: mother-in-law, brother-in-law, stepson, wife's cousin
+    return closest(partnersOf(fromId).flatMap(({ id: partnerId }) => {
+      const link = bloodLink(partnerId, toId);
+      if (!link) return [];
+      let term: string;
+      if (link.up === 1 && link.down === 0) term = `${gendered(gender, 'father', 'mother', 'parent')}-in-law`;
+      else if (link.up === 1 && link.down === 1) term = `${gendered(gender, 'brother', 'sister', 'sibling')}-in-law`;
+      else if (link.up === 0 && link.down === 1) term = `step${gendered(gender, 'son', 'daughter', 'child')}`;
+      else term = `${gendered(genderOf(partnerId), "husband's", "wife's", "partner's")} ${bloodTerm(link, gender, isHalf(link))}`;
+      return [{ term, path: [fromId, ...link.path], distance: link.up + link.down + 1 }];
+    }));
+  };
+};
+
+export const findRelationship = (graph: FamilyGraph, fromId: string, toId: string): Kinship | null =>
+  createKinshipCalculator(graph, fromId)(toId);
+
+// Kinship term of everyone related to `fromId`, for labelling a chart drawn around them
+export const relationshipLabels = (graph: FamilyGraph, fromId: string): Record<string, string> => {
+  const describe = createKinshipCalculator(graph, fromId);
+  const labels: Record<string, string> = {};
+  Object.keys(graph.persons).forEach(id => {
+    if (id === fromId) return;
+    const kinship = describe(id);
+    if (kinship) labels[id] = kinship.term;
+  });
+  return labels;
+};
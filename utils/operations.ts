@@ -0,0 +1,150 @@
+import { FamilyGraph, Partnership, Person } from '../types.ts';
+import { buildGraph } from './graph.ts';
+
+// Tree edits as operations that can be exchanged between people editing the same tree.
+// The tree is treated as a set of last-writer-wins registers: whether each person exists, each of
+// their fields, each parent-child link, each partnership and the root. An operation overwrites one
+// register and carries a Lamport stamp; a register only takes an operation with a later stamp than
+// the one it holds, so every copy that has seen the same operations ends up the same, whatever
+// order they arrived in.
+//
+// Register keys:
+//   person/<id>          true while the person exists
+//   person/<id>/<field>  one field of a person, null when unset
+//   parent/<id>/<pid>    true while <pid> is a parent of the person; one register per link, so
+//                        parents added by two people at once are both kept (in the order each
+//                        copy received them)
+//   union/<id>           a partnership, null once removed
+//   root                 the root person's id
+
+export interface Stamp {
+  clock: number;
+  // Breaks ties between operations made at the same clock
+  clientId: string;
+}
+
+export interface GraphOperation {
+  key: string;
+  value: unknown;
+  stamp: Stamp;
+}
+
+export type GraphChange = Omit<GraphOperation, 'stamp'>;
+
+// One copy of the shared tree: its clock and the stamp of the last operation on each register
+export interface Replica {
+  clientId: string;
+  clock: number;
+  stamps: Record<string, Stamp>;
+}
+
+export const EMPTY_GRAPH: FamilyGraph = {
+  rootId: '',
+  persons: {},
+  partnerships: {},
+  parentIds: {},
+  childIds: {},
+  partnershipIds: {}
+};
+
+export const compareStamps = (a: Stamp, b: Stamp): number =>
+  a.clock - b.clock || (a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0);
+
+const isSame = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// The registers that differ between two versions of a tree. Mutations share unchanged people and
+// partnerships between versions, so most comparisons stop at a reference check.
+export const diffGraphs = (prev: FamilyGraph, next: FamilyGraph): GraphChange[] => {
+  const changes: GraphChange[] = [];
+  const put = (key: string, before: unknown, after: unknown) => {
+    if (!isSame(before, after)) changes.push({ key, value: after ?? null });
+  };
+
+  Object.values(next.persons).forEach(person => {
+    const old = prev.persons[person.id];
+    if (old === person) return;
+    if (!old) changes.push({ key: `person/${person.id}`, value: true });
+    new Set([...Object.keys(old || {}), ...Object.keys(person)]).forEach(field => {
+      if (field !== 'id') put(`person/${person.id}/${field}`, old?.[field as keyof Person], person[field as keyof Person]);
+    });
+  });
+  Object.keys(prev.persons).forEach(id => {
+    if (!next.persons[id]) changes.push({ key: `person/${id}`, value: false });
+  });
+
+  new Set([...Object.keys(prev.parentIds), ...Object.keys(next.parentIds)]).forEach(id => {
+    const before = prev.parentIds[id] || [];
+    const after = next.parentIds[id] || [];
+    if (before === after) return;
+    after.forEach(pid => { if (!before.includes(pid)) changes.push({ key: `parent/${id}/${pid}`, value: true }); });
+    before.forEach(pid => { if (!after.includes(pid)) changes.push({ key: `parent/${id}/${pid}`, value: false }); });
+  });
+  new Set([...Object.keys(prev.partnerships), ...Object.keys(next.partnerships)]).forEach(id => {
+    if (prev.partnerships[id] !== next.partnerships[id]) put(`union/${id}`, prev.partnerships[id], next.partnerships[id]);
+  });
+  put('root', prev.rootId, next.rootId);
+
+  return changes;
+};
+
+// Stamps local changes, advancing the replica's clock
+export const stampChanges = (replica: Replica, changes: GraphChange[]): GraphOperation[] =>
+  changes.map(change => {
+    const stamp = { clock: ++replica.clock, clientId: replica.clientId };
+    replica.stamps[change.key] = stamp;
+    return { ...change, stamp };
+  });
+
+// Keeps the operations that win over what the replica already has, and records them
+export const acceptOperations = (replica: Replica, ops: GraphOperation[]): GraphOperation[] =>
+  ops.filter(op => {
+    replica.clock = Math.max(replica.clock, op.stamp.clock);
+    const current = replica.stamps[op.key];
+    if (current && compareStamps(op.stamp, current) <= 0) return false;
+    replica.stamps[op.key] = op.stamp;
+    return true;
+  });
+
+// Applies accepted operations to a tree
+export const applyOperations = (graph: FamilyGraph, ops: GraphOperation[]): FamilyGraph => {
+  if (ops.length === 0) return graph;
+  const persons = { ...graph.persons };
+  const parentIds = { ...graph.parentIds };
+  const partnerships = { ...graph.partnerships };
+  let rootId = graph.rootId;
+
+  ops.forEach(({ key, value }) => {
+    const [kind, id, field] = key.split('/');
+    if (kind === 'root') {
+      rootId = value as string;
+    } else if (kind === 'parent') {
+      const parents = parentIds[id] || [];
+      if (value) parentIds[id] = parents.includes(field) ? parents : [...parents, field];
+      else parentIds[id] = parents.filter(pid => pid !== field);
+    } else if (kind === 'union') {
+      if (value) partnerships[id] = value as Partnership;
+      else delete partnerships[id];
+    } else if (kind === 'person' && !field) {
+      if (value) persons[id] ||= { id, name: '', imageUrl: '' };
+      else delete persons[id];
+    } else if (kind === 'person' && persons[id]) {
+      const { [field as keyof Person]: _old, ...person } = persons[id];
+      persons[id] = (value === null ? person : { ...persons[id], [field]: value }) as Person;
+    }
+  });
+
+  // Concurrent edits can leave references to someone another collaborator removed
+  Object.keys(parentIds).forEach(id => {
+    const parents = persons[id] ? parentIds[id].filter(pid => persons[pid]) : [];
+    if (parents.length > 0) parentIds[id] = parents;
+    else delete parentIds[id];
+  });
+  if (!persons[rootId]) rootId = persons[graph.rootId] ? graph.rootId : Object.keys(persons)[0] ?? '';
+
+  return buildGraph({
+    rootId,
+    persons: Object.values(persons),
+    parentIds,
+    partnerships: Object.values(partnerships).filter(p => p.partnerIds.every(pid => persons[pid]))
+  });
+};
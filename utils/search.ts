@@ -0,0 +1,67 @@
+import { FamilyMember } from '../types.ts';
+import { formatDate, formatLifespan } from './dates.ts';
+
+export interface SearchHit {
+  id: string;
+  name: string;
+  lifespan: string;
+  relationship?: string;
+  imageUrl: string;
+  // Spouses whose trees must be expanded for the hit to be drawn, outermost first
+  spousePath: string[];
+  // People whose ancestors lead to the hit, so collapsed branches along the way can be opened
+  ancestorPath: string[];
+}
+
+const SEARCH_FIELDS = (member: FamilyMember) => [
+  member.name,
+  member.relationship || '',
+  formatDate(member.birth?.date),
+  member.birth?.place || '',
+  formatDate(member.death?.date),
+  member.death?.place || ''
+];
+
+// Finds everyone in a rendered hierarchy (including siblings and people inside spouse trees, expanded or not)
+// whose name, relationship, or birth and death dates and places contain every word of the query.
+export const searchTree = (root: FamilyMember, query: string, limit = 20): SearchHit[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const hits: SearchHit[] = [];
+  const seen = new Set<string>();
+
+  const visit = (member: FamilyMember, spousePath: string[], ancestorPath: string[]) => {
+    // The same person can be drawn more than once; the first (shallowest) occurrence wins
+    if (!seen.has(member.id)) {
+      seen.add(member.id);
+      const haystack = SEARCH_FIELDS(member).join(' ').toLowerCase();
+      if (terms.every(term => haystack.includes(term))) {
+        hits.push({
+          id: member.id,
+          name: member.name,
+          lifespan: formatLifespan(member),
+          relationship: member.relationship,
+          imageUrl: member.imageUrl,
+          spousePath,
+          ancestorPath
+        });
+      }
+    }
+
+    member.parents?.forEach(p => visit(p, spousePath, [...ancestorPath, member.id]));
+    member.children?.forEach(c => visit(c, spousePath, ancestorPath));
+    member.siblings?.forEach(s => visit(s, spousePath, ancestorPath));
+    member.spouses?.forEach(({ parents, children, spouses: _hidden, siblings: _alsoHidden, ...spouse }) => {
+      // Spouses are always drawn next to their partner, but their relatives only inside the open
+      // spouse tree. A spouse's own other partners are never drawn at this position.
+      visit(spouse, spousePath, ancestorPath);
+      const nextPath = [...spousePath, spouse.id];
+      parents?.forEach(p => visit(p, nextPath, [...ancestorPath, spouse.id]));
+      children?.forEach(c => visit(c, nextPath, ancestorPath));
+    });
+  };
+
+  visit(root, [], []);
+  return hits.slice(0, limit);
+};
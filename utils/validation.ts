@@ -0,0 +1,132 @@
+import { FamilyGraph, LifeEvent, PartialDate, Person } from '../types.ts';
+import { getChildIds, getParentIds, getPartnerships } from './graph.ts';
+import { daysInMonth, formatYear } from './dates.ts';
+
+// Consistency checks over the tree. Nothing here blocks an edit: issues are shown as badges,
+// in the issues panel and as hints in the edit form so the user can decide what to fix.
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  personId: string;
+  severity: IssueSeverity;
+  message: string;
+}
+
+// Names given to people created from the node buttons, until someone renames them
+export const PLACEHOLDER_NAMES = ['New Ancestor', 'New Descendant', 'New Spouse', 'New Sibling'];
+
+const MAX_LIFESPAN = 120;
+const MIN_PARENT_AGE = 12;
+
+const yearOf = (event?: LifeEvent) => event?.date?.year;
+
+const isImpossibleDate = ({ year, month, day }: PartialDate) => {
+  if (month !== undefined && (month < 1 || month > 12)) return true;
+  if (day !== undefined && (day < 1 || day > (month !== undefined ? daysInMonth(month, year) : 31))) return true;
+  return year !== undefined && !Number.isInteger(year);
+};
+
+// Issues that only depend on the person's own details
+const personIssues = (person: Person): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const add = (severity: IssueSeverity, message: string) => issues.push({ personId: person.id, severity, message });
+  const name = person.name.trim();
+  const currentYear = new Date().getFullYear();
+
+  if (name === '') add('warning', "Has no name.");
+  else if (PLACEHOLDER_NAMES.includes(name)) add('warning', `Is still called "${name}".`);
+
+  const events: [string, LifeEvent | undefined][] = [['Birth', person.birth], ['Death', person.death]];
+  events.forEach(([label, event]) => {
+    if (event?.date && isImpossibleDate(event.date)) add('error', `${label} date is not a real date.`);
+    const year = yearOf(event);
+    if (year !== undefined && year > currentYear) add('error', `${label} year ${year} is in the future.`);
+  });
+
+  const born = yearOf(person.birth);
+  const died = yearOf(person.death);
+  if (born !== undefined && died !== undefined) {
+    if (died < born) add('error', `Died (${died}) before being born (${born}).`);
+    else if (died - born > MAX_LIFESPAN) add('warning', `Lived ${died - born} years, which is unusually long.`);
+  } else if (born !== undefined && !person.death && currentYear - born > MAX_LIFESPAN) {
+    add('warning', `Born ${currentYear - born} years ago but no death is recorded.`);
+  }
+
+  return issues;
+};
+
+// Issues between a parent and a child, reported on `reportOn`
+const parentChildIssues = (parent: Person, child: Person, reportOn: string): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const add = (severity: IssueSeverity, message: string) => issues.push({ personId: reportOn, severity, message });
+  const parentBorn = yearOf(parent.birth);
+  const childBorn = yearOf(child.birth);
+
+  if (parentBorn !== undefined && childBorn !== undefined) {
+    if (parentBorn >= childBorn) {
+      add('error', `Parent ${parent.name} (b. ${formatYear(parent.birth?.date)}) is not older than their child ${child.name} (b. ${formatYear(child.birth?.date)}).`);
+    } else if (childBorn - parentBorn < MIN_PARENT_AGE) {
+      add('warning', `${parent.name} was only ${childBorn - parentBorn} when their child ${child.name} was born.`);
+    }
+  }
+
+  // A father may die shortly before the birth, so allow a year
+  const parentDied = yearOf(parent.death);
+  if (parentDied !== undefined && childBorn !== undefined && parentDied < childBorn - 1) {
+    add('warning', `${parent.name} died (${parentDied}) before their child ${child.name} was born (${childBorn}).`);
+  }
+
+  return issues;
+};
+
+const parentCountIssues = (graph: FamilyGraph, person: Person): ValidationIssue[] => {
+  const count = getParentIds(graph, person.id).length;
+  return count > 2
+    ? [{ personId: person.id, severity: 'error', message: `Has ${count} parents; a person has at most two biological parents.` }]
+    : [];
+};
+
+const marriageIssues = (graph: FamilyGraph, person: Person): ValidationIssue[] => {
+  const born = yearOf(person.birth);
+  const issues: ValidationIssue[] = [];
+  getPartnerships(graph, person.id).forEach(union => {
+    const married = yearOf(union.marriage);
+    if (married !== undefined && born !== undefined && married < born) {
+      issues.push({ personId: person.id, severity: 'error', message: `Married (${married}) before being born (${born}).` });
+    }
+    const divorced = yearOf(union.divorce);
+    if (married !== undefined && divorced !== undefined && divorced < married) {
+      issues.push({ personId: person.id, severity: 'error', message: `Divorced (${divorced}) before marrying (${married}).` });
+    }
+  });
+  return issues;
+};
+
+// Issues of a person on their own and with their parents
+const ownIssues = (graph: FamilyGraph, person: Person): ValidationIssue[] => [
+  ...personIssues(person),
+  ...parentCountIssues(graph, person),
+  ...marriageIssues(graph, person),
+  ...getParentIds(graph, person.id)
+    .filter(pid => graph.persons[pid])
+    .flatMap(pid => parentChildIssues(graph.persons[pid], person, person.id))
+];
+
+// Every issue in the tree. Problems between a parent and a child are reported on the child.
+export const validateGraph = (graph: FamilyGraph): ValidationIssue[] =>
+  Object.values(graph.persons).flatMap(person => ownIssues(graph, person));
+
+// Issues for one person (possibly with unsaved edits), including those with their children
+export const validatePerson = (graph: FamilyGraph, person: Person): ValidationIssue[] => [
+  ...ownIssues(graph, person),
+  ...getChildIds(graph, person.id)
+    .filter(cid => graph.persons[cid])
+    .flatMap(cid => parentChildIssues(person, graph.persons[cid], person.id))
+];
+
+export const groupIssuesByPerson = (issues: ValidationIssue[]): Record<string, ValidationIssue[]> => {
+  const grouped: Record<string, ValidationIssue[]> = {};
+  issues.forEach(issue => { (grouped[issue.personId] ||= []).push(issue); });
+  return grouped;
+};